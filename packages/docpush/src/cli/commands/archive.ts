@@ -0,0 +1,96 @@
+import path from 'node:path';
+import chalk from 'chalk';
+import { config } from 'dotenv';
+import fs from 'fs-extra';
+import type { ConflictStrategy, ImportMode } from '../../server/archive';
+
+// Load config and storage, bringing stored data up to the current schema version
+async function openStorage(): Promise<void> {
+  // Load .env file from current working directory
+  config();
+
+  const { loadConfig } = await import('../../core/config');
+  const { createStorageAdapter, migrateStorage, setStorageAdapter } = await import(
+    '../../server/storage'
+  );
+
+  const docsConfig = await loadConfig();
+  setStorageAdapter(createStorageAdapter(docsConfig));
+  await migrateStorage();
+}
+
+export async function exportCommand(file?: string): Promise<void> {
+  try {
+    await openStorage();
+    const { exportState } = await import('../../server/archive');
+
+    const archive = await exportState();
+    const target = path.resolve(
+      file ?? `docpush-archive-${archive.exportedAt.replace(/[:.]/g, '-')}.json`
+    );
+    await fs.writeJson(target, archive, { spaces: 2 });
+
+    console.log(
+      chalk.green(
+        `✓ Exported ${archive.drafts.length} draft(s) and ${archive.comments.length} comment(s)`
+      )
+    );
+    console.log(chalk.gray(`  ${target}`));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(chalk.red('❌ Export failed:'), message);
+    process.exit(1);
+  }
+}
+
+export async function importCommand(
+  file: string,
+  options: { mode: string; onConflict: string; dryRun?: boolean }
+): Promise<void> {
+  try {
+    const { CONFLICT_STRATEGIES, IMPORT_MODES, importState } = await import('../../server/archive');
+
+    if (!IMPORT_MODES.includes(options.mode as ImportMode)) {
+      console.error(chalk.red(`❌ --mode must be one of ${IMPORT_MODES.join(', ')}`));
+      process.exit(1);
+    }
+    if (!CONFLICT_STRATEGIES.includes(options.onConflict as ConflictStrategy)) {
+      console.error(chalk.red(`❌ --on-conflict must be one of ${CONFLICT_STRATEGIES.join(', ')}`));
+      process.exit(1);
+    }
+
+    await openStorage();
+    const report = await importState(await fs.readJson(path.resolve(file)), {
+      mode: options.mode as ImportMode,
+      onConflict: options.onConflict as ConflictStrategy,
+      dryRun: options.dryRun,
+    });
+
+    console.log(
+      chalk.blue(`📥 Import (${report.mode}${report.dryRun ? ', dry run' : ''}) from ${file}\n`)
+    );
+
+    if (report.removed > 0) {
+      console.log(chalk.yellow('• removed'), `${report.removed} stored draft(s)`);
+    }
+    console.log(chalk.green('✓ imported'), `${report.imported.length} draft(s)`);
+    if (report.overwritten.length > 0) {
+      console.log(chalk.green('✓ overwritten'), report.overwritten.join(', '));
+    }
+    for (const { from, to } of report.renamed) {
+      console.log(chalk.green('✓ renamed'), `${from} ${chalk.gray(`→ ${to}`)}`);
+    }
+    if (report.skipped.length > 0) {
+      console.log(chalk.yellow('• skipped (id in use)'), report.skipped.join(', '));
+    }
+    console.log(chalk.gray(`  ${report.comments} comment(s)`));
+
+    if (report.dryRun) {
+      console.log(chalk.gray('\nRun without --dry-run to import.'));
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(chalk.red('❌ Import failed:'), message);
+    process.exit(1);
+  }
+}
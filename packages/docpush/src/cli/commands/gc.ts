@@ -0,0 +1,73 @@
+import chalk from 'chalk';
+import { config } from 'dotenv';
+
+export async function gcCommand(options: { dryRun?: boolean; olderThan: string }): Promise<void> {
+  // Load .env file from current working directory
+  config();
+
+  const olderThanDays = Number(options.olderThan);
+  if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+    console.error(chalk.red('❌ --older-than must be a non-negative number of days'));
+    process.exit(1);
+  }
+
+  try {
+    const { loadConfig } = await import('../../core/config');
+    const { collectGarbage } = await import('../../server/gc');
+    const { createStorageAdapter, setStorageAdapter } = await import('../../server/storage');
+
+    const docsConfig = await loadConfig();
+    setStorageAdapter(createStorageAdapter(docsConfig));
+    const report = await collectGarbage(docsConfig, {
+      dryRun: options.dryRun,
+      olderThanDays,
+    });
+
+    console.log(
+      chalk.blue(
+        `🧹 Draft branches older than ${olderThanDays} day(s)${report.dryRun ? ' (dry run)' : ''}\n`
+      )
+    );
+
+    if (report.orphanBranches.length === 0 && report.orphanDrafts.length === 0) {
+      console.log(chalk.green('✓ Nothing to clean up'));
+      return;
+    }
+
+    // Name the repository when there are several
+    const where = (source: string) => (docsConfig.sources.length > 0 ? `${source}: ` : '');
+
+    for (const branch of report.orphanBranches) {
+      const why = branch.reason === 'untracked' ? 'no draft' : `draft ${branch.draftId} is closed`;
+      const deleted = report.deletedBranches.includes(branch.name);
+      console.log(
+        deleted ? chalk.green('✓ deleted') : chalk.yellow('• orphan'),
+        `${where(branch.source)}${branch.name} ${chalk.gray(`(${why}, last commit ${branch.lastCommitAt})`)}`
+      );
+    }
+
+    for (const draft of report.orphanDrafts) {
+      const rejected = report.rejectedDrafts.includes(draft.id);
+      console.log(
+        rejected ? chalk.green('✓ rejected') : chalk.yellow('• missing'),
+        `${draft.title} ${chalk.gray(`(${draft.id}, branch ${draft.branchName} is gone)`)}`
+      );
+    }
+
+    for (const { source, branch, error } of report.errors) {
+      console.log(chalk.red('✗ failed'), `${where(source)}${branch} ${chalk.gray(error)}`);
+    }
+
+    if (report.dryRun) {
+      console.log(chalk.gray('\nRun without --dry-run to clean up.'));
+    }
+
+    if (report.errors.length > 0) {
+      process.exit(1);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(chalk.red('❌ Garbage collection failed:'), message);
+    process.exit(1);
+  }
+}
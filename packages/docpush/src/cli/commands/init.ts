@@ -68,7 +68,7 @@ GITHUB_TOKEN=ghp_your_token_here
 APP_URL=http://localhost:3000
 SESSION_SECRET=generate-random-string-here-change-in-production
 
-# Database (optional - uses SQLite if not provided)
+# SQLite database file when storage.adapter is 'sqlite' (default: .docpush/docpush.db)
 # DATABASE_PATH=./docpush.db
 
 # OAuth - Required for domain-restricted mode
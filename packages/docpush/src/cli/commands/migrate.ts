@@ -0,0 +1,58 @@
+import chalk from 'chalk';
+import { config } from 'dotenv';
+
+export async function migrateCommand(options: {
+  dryRun?: boolean;
+  backup: boolean;
+}): Promise<void> {
+  // Load .env file from current working directory
+  config();
+
+  try {
+    const { loadConfig } = await import('../../core/config');
+    const { createStorageAdapter, migrateStorage, setStorageAdapter } = await import(
+      '../../server/storage'
+    );
+
+    const docsConfig = await loadConfig();
+    setStorageAdapter(createStorageAdapter(docsConfig));
+    const report = await migrateStorage({ dryRun: options.dryRun, backup: options.backup });
+
+    if (!report) {
+      console.log(
+        chalk.yellow('⚠️  This storage adapter has no migrations; it manages its own schema')
+      );
+      return;
+    }
+
+    if (report.migrations.length === 0) {
+      console.log(chalk.green(`✓ Storage is up to date (schema v${report.from})`));
+      return;
+    }
+
+    console.log(
+      chalk.blue(
+        `📦 Storage schema v${report.from} → v${report.to}${report.dryRun ? ' (dry run)' : ''}\n`
+      )
+    );
+
+    for (const migration of report.migrations) {
+      console.log(
+        report.dryRun ? chalk.yellow('• pending') : chalk.green('✓ applied'),
+        `v${migration.version} ${chalk.gray(migration.description)}`
+      );
+    }
+
+    if (report.backupPath) {
+      console.log(chalk.gray(`\nBackup: ${report.backupPath}`));
+    }
+
+    if (report.dryRun) {
+      console.log(chalk.gray('\nRun without --dry-run to migrate.'));
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(chalk.red('❌ Migration failed:'), message);
+    process.exit(1);
+  }
+}
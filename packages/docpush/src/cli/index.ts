@@ -2,7 +2,10 @@
 
 import { Command } from 'commander';
 import { addCommand } from './commands/add';
+import { exportCommand, importCommand } from './commands/archive';
+import { gcCommand } from './commands/gc';
 import { initCommand } from './commands/init';
+import { migrateCommand } from './commands/migrate';
 import { startCommand } from './commands/start';
 
 const program = new Command();
@@ -29,4 +32,37 @@ program
   .argument('<components...>', 'Components to add (e.g., button input textarea or "all")')
   .action(addCommand);
 
+program
+  .command('gc')
+  .description('Delete orphaned draft branches and reject drafts whose branch is gone')
+  .option('--dry-run', 'Report orphans without changing anything')
+  .option('--older-than <days>', 'Only touch branches and drafts idle for this many days', '7')
+  .action(gcCommand);
+
+program
+  .command('migrate')
+  .description('Upgrade stored drafts, comments and sessions to the current schema version')
+  .option('--dry-run', 'List pending migrations without applying them')
+  .option('--no-backup', 'Skip copying the data aside first')
+  .action(migrateCommand);
+
+program
+  .command('export')
+  .description('Write every draft and comment to a portable archive (sessions are left out)')
+  .argument('[file]', 'Archive to write (default: docpush-archive-<timestamp>.json)')
+  .action(exportCommand);
+
+program
+  .command('import')
+  .description('Load drafts and comments from an archive written by docpush export')
+  .argument('<file>', 'Archive to read')
+  .option('--mode <mode>', 'merge: add to stored drafts; replace: delete them first', 'merge')
+  .option(
+    '--on-conflict <strategy>',
+    'For draft ids already stored (merge): skip, overwrite or rename',
+    'skip'
+  )
+  .option('--dry-run', 'Validate the archive and report without writing')
+  .action(importCommand);
+
 program.parse();
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { StorageAdapter } from '../storage';
 
 // Auth mode schemas
 const publicAuthSchema = z.object({
@@ -12,14 +13,133 @@ const domainRestrictedAuthSchema = z.object({
   allowedDomains: z.array(z.string()).min(1, 'At least one domain required'),
 });
 
-export const configSchema = z.object({
-  // GitHub repository configuration
-  github: z.object({
-    owner: z.string().min(1, 'GitHub owner required'),
-    repo: z.string().min(1, 'GitHub repo required'),
-    branch: z.string().default('main'),
-    docsPath: z.string().default('docs'),
-  }),
+// Git backend schemas
+const githubGitSchema = z.object({
+  provider: z.literal('github'),
+});
+
+// GitLab and Gitea report how far a draft is behind but can't sync it (no branch merge API)
+const gitlabGitSchema = z.object({
+  provider: z.literal('gitlab'),
+  url: z.string().url().default('https://gitlab.com'),
+});
+
+const giteaGitSchema = z.object({
+  provider: z.literal('gitea'),
+  url: z.string().url('Gitea URL required for gitea provider'),
+});
+
+const localGitSchema = z.object({
+  provider: z.literal('local'),
+  repoPath: z.string().min(1, 'Repository path required for local provider'),
+});
+
+// Storage backend schemas
+const jsonStorageSchema = z.object({
+  adapter: z.literal('json'),
+  // Data directory, relative to the working directory
+  path: z.string().min(1).default('.docpush'),
+});
+
+const sqliteStorageSchema = z.object({
+  adapter: z.literal('sqlite'),
+  // Database file, relative to the working directory; created with its tables on first use
+  path: z
+    .string()
+    .min(1)
+    .default(() => process.env.DATABASE_PATH || '.docpush/docpush.db'),
+});
+
+const customStorageSchema = z.object({
+  adapter: z.literal('custom'),
+  instance: z.custom<StorageAdapter>(
+    (value) => typeof value === 'object' && value !== null,
+    'Custom storage needs an adapter instance'
+  ),
+});
+
+const repositorySchema = z.object({
+  owner: z.string().min(1, 'GitHub owner required'),
+  repo: z.string().min(1, 'GitHub repo required'),
+  branch: z.string().default('main'),
+  docsPath: z.string().default('docs'),
+});
+
+// Extra documentation repository, shown in the docs tree under its prefix
+const sourceSchema = repositorySchema.extend({
+  id: z.string().regex(/^[\w-]+$/, 'Source id may only contain letters, digits, "_", "-"'),
+  label: z.string().min(1).optional(),
+  // Folder the source's docs appear under in the tree (defaults to the id)
+  prefix: z
+    .string()
+    .regex(/^[\w.-]+(\/[\w.-]+)*$/, 'Source prefix must be a relative folder path')
+    .optional(),
+  // Token for this repository; defaults to the git provider's token variable
+  token: z.string().min(1).optional(),
+  // Local provider only; defaults to git.repoPath
+  repoPath: z.string().min(1).optional(),
+});
+
+const baseConfigSchema = z.object({
+  // GitHub repository configuration (single source; use `sources` for several repositories)
+  github: repositorySchema.optional(),
+
+  // Documentation repositories merged into one tree, each under its own prefix
+  sources: z
+    .array(sourceSchema)
+    .default([])
+    .refine((sources) => new Set(sources.map((s) => s.id)).size === sources.length, {
+      message: 'Source ids must be unique',
+    })
+    .refine(
+      (sources) => {
+        const prefixes = sources.map((s) => `${s.prefix ?? s.id}/`);
+        return prefixes.every((a, i) => prefixes.every((b, j) => i === j || !b.startsWith(a)));
+      },
+      { message: 'Source prefixes must not overlap' }
+    ),
+
+  // Git backend (defaults to GitHub)
+  git: z
+    .discriminatedUnion('provider', [
+      githubGitSchema,
+      gitlabGitSchema,
+      giteaGitSchema,
+      localGitSchema,
+    ])
+    .default({ provider: 'github' }),
+
+  // Where drafts, comments and sessions are kept (defaults to JSON files in .docpush)
+  storage: z
+    .discriminatedUnion('adapter', [jsonStorageSchema, sqliteStorageSchema, customStorageSchema])
+    .default({ adapter: 'json' }),
+
+  // Git LFS for media at paths marked filter=lfs in .gitattributes
+  lfs: z
+    .object({
+      // Batch API endpoint; defaults to <repository>.git/info/lfs on the git host
+      url: z.string().url().optional(),
+    })
+    .default({}),
+
+  // Published versions readers can switch between (branches or tags)
+  versions: z
+    .array(
+      z.object({
+        // Used in URLs: /api/docs/@<id>/...
+        id: z
+          .string()
+          .regex(/^[\w.-]+$/, 'Version id may only contain letters, digits, ".", "_", "-"'),
+        label: z.string().min(1),
+        ref: z.string().min(1),
+        // Version shown when the reader has not picked one
+        default: z.boolean().default(false),
+      })
+    )
+    .default([])
+    .refine((versions) => versions.filter((v) => v.default).length <= 1, {
+      message: 'Only one version can be the default',
+    }),
 
   // Authentication mode (discriminated union)
   auth: z.discriminatedUnion('mode', [publicAuthSchema, domainRestrictedAuthSchema]),
@@ -29,6 +149,36 @@ export const configSchema = z.object({
     emails: z.array(z.string().email()).min(1, 'At least one admin email required'),
   }),
 
+  // Commit attribution for draft edits
+  commits: z
+    .object({
+      // Record the signed-in editor as commit author (the committer stays the service identity)
+      recordAuthor: z.boolean().default(true),
+      // Author for editors without an email, e.g. public mode; omit to use the service identity
+      anonymousAuthor: z
+        .object({
+          name: z.string().min(1),
+          email: z.string().email(),
+        })
+        .optional(),
+    })
+    .default({}),
+
+  // How approved drafts reach the base branch
+  publishing: z
+    .object({
+      // auto-merge: merge the PR on approval; pull-request: open it and wait for it to be merged
+      mode: z.enum(['auto-merge', 'pull-request']).default('auto-merge'),
+      mergeMethod: z.enum(['squash', 'merge', 'rebase']).default('squash'),
+      // Placeholders: {title}, {docPath}, {branch}, {author}, {approver}
+      prTitle: z.string().min(1).default('Docs: {title}'),
+      prBody: z.string().default('Approved documentation update for `{docPath}`'),
+      labels: z.array(z.string().min(1)).default([]),
+      // Usernames on the git host
+      reviewers: z.array(z.string().min(1)).default([]),
+    })
+    .default({}),
+
   // Optional branding
   branding: z
     .object({
@@ -38,8 +188,32 @@ export const configSchema = z.object({
     .optional(),
 });
 
+export const configSchema = baseConfigSchema
+  .refine((config) => Boolean(config.github) !== config.sources.length > 0, {
+    message: 'Configure either github or sources',
+    path: ['github'],
+  })
+  // Code that only needs one repository keeps using github: with sources, the first one
+  .transform((config) => ({
+    ...config,
+    github: config.github ?? {
+      owner: config.sources[0].owner,
+      repo: config.sources[0].repo,
+      branch: config.sources[0].branch,
+      docsPath: config.sources[0].docsPath,
+    },
+  }));
+
 export type DocsConfig = z.infer<typeof configSchema>;
 
+// Token environment variable for each git provider (local repositories need none)
+const GIT_TOKEN_VARS: Record<DocsConfig['git']['provider'], string | null> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+  local: null,
+};
+
 interface EnvValidationResult {
   valid: boolean;
   missing: string[];
@@ -57,7 +231,20 @@ export function validateEnv(config?: DocsConfig): EnvValidationResult {
   };
 
   // Always required
-  const required = ['GITHUB_TOKEN', 'APP_URL', 'SESSION_SECRET'];
+  const required = ['APP_URL', 'SESSION_SECRET'];
+
+  // Token for the configured git provider (GitHub App credentials replace GITHUB_TOKEN)
+  const provider = config?.git.provider ?? 'github';
+  const tokenVar = GIT_TOKEN_VARS[provider];
+  // Not needed when every source brings its own token
+  const sourceTokens = !!config?.sources.length && config.sources.every((source) => source.token);
+  if (!sourceTokens) {
+    if (provider === 'github' && process.env.GITHUB_APP_ID) {
+      required.unshift('GITHUB_APP_PRIVATE_KEY', 'GITHUB_APP_INSTALLATION_ID');
+    } else if (tokenVar) {
+      required.unshift(tokenVar);
+    }
+  }
 
   for (const key of required) {
     if (!process.env[key]) {
@@ -51,6 +51,39 @@ export class DocNotFoundError extends DocPushError {
   }
 }
 
+/**
+ * Branch head changed while a commit was being written
+ */
+export class BranchMovedError extends DocPushError {
+  constructor(branchName: string) {
+    super(`Branch was updated by another commit: ${branchName}`, 'BRANCH_MOVED');
+    this.name = 'BranchMovedError';
+  }
+}
+
+/**
+ * Another process held a storage file's lock for too long
+ */
+export class StorageLockError extends DocPushError {
+  constructor(file: string) {
+    super(`Timed out waiting for storage lock: ${file}`, 'STORAGE_LOCKED');
+    this.name = 'StorageLockError';
+  }
+}
+
+/**
+ * Stored data was written by a newer DocPush than this one
+ */
+export class StorageVersionError extends DocPushError {
+  constructor(found: number, supported: number) {
+    super(
+      `Storage schema version ${found} is newer than this DocPush supports (${supported})`,
+      'STORAGE_VERSION'
+    );
+    this.name = 'StorageVersionError';
+  }
+}
+
 /**
  * Validation error
  */
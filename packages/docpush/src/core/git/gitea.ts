@@ -0,0 +1,515 @@
+import type { AxiosInstance } from 'axios';
+import type { DocsConfig } from '../config';
+import { BranchMovedError } from '../errors';
+import { retryWithBackoff } from '../github/retry';
+import { createHttpClient } from './http';
+import {
+  type BranchInfo,
+  type BranchStatus,
+  type CommitOptions,
+  type DocTreeItem,
+  type FileChange,
+  type FileHistoryEntry,
+  type GitProvider,
+  type HistoryOptions,
+  type MergeMethod,
+  type OpenPullRequest,
+  type PullRequestOptions,
+  type PullRequestStatus,
+  filterDocsPaths,
+  filterDocsTree,
+  relativeToDocs,
+} from './provider';
+
+interface GiteaTree {
+  tree: Array<{ path: string; type: 'tree' | 'blob' | 'commit' }>;
+  truncated: boolean;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  user?: { login: string };
+  base: { ref: string };
+  head: { ref: string; repo?: { full_name: string } | null };
+}
+
+interface GiteaBranch {
+  name: string;
+  commit: { id: string; timestamp: string };
+}
+
+interface GiteaCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author?: { name?: string; date?: string };
+  };
+}
+
+interface GiteaCompare {
+  commits: Array<{
+    sha: string;
+    parents?: Array<{ sha: string }>;
+    files?: Array<{ filename: string }>;
+  }>;
+}
+
+/**
+ * Git provider for Gitea (and Forgejo) using the v1 REST API.
+ * The API has no blame endpoint, so getFileBlame is not implemented, and can't merge one
+ * branch into another outside a pull request, so neither is syncBranch.
+ */
+export class GiteaProvider implements GitProvider {
+  private http: AxiosInstance;
+  private config: DocsConfig['github'];
+  private repoUrl: string;
+
+  constructor(token: string, url: string, config: DocsConfig['github']) {
+    this.http = createHttpClient(`${url.replace(/\/$/, '')}/api/v1`, {
+      Authorization: `token ${token}`,
+    });
+    this.config = config;
+    this.repoUrl = `/repos/${encodeURIComponent(config.owner)}/${encodeURIComponent(config.repo)}`;
+  }
+
+  /**
+   * Get documentation file tree
+   * Returns only .md files and their parent directories (excludes assets folders)
+   */
+  async getDocsTree(ref?: string): Promise<DocTreeItem[]> {
+    return retryWithBackoff(async () => {
+      // Accepts a branch, tag or SHA
+      const { data: commit } = await this.http.get<{ sha: string }>(
+        `${this.repoUrl}/git/commits/${encodeURIComponent(ref || this.config.branch)}`,
+        { params: { stat: false, files: false } }
+      );
+
+      const prefix = `${this.config.docsPath}/`;
+      const items: DocTreeItem[] = [];
+
+      // Recursive trees are paged; keep going until Gitea stops truncating
+      for (let page = 1; ; page++) {
+        const { data } = await this.http.get<GiteaTree>(`${this.repoUrl}/git/trees/${commit.sha}`, {
+          params: { recursive: true, per_page: 1000, page },
+        });
+
+        for (const item of data.tree || []) {
+          if (!item.path.startsWith(prefix)) continue;
+          items.push({
+            path: item.path.slice(prefix.length),
+            type: item.type === 'tree' ? 'dir' : 'file',
+          });
+        }
+
+        if (!data.truncated) break;
+      }
+
+      return filterDocsTree(items);
+    });
+  }
+
+  /**
+   * Get file content from repository
+   */
+  async getFileContent(filePath: string, ref?: string): Promise<string> {
+    return retryWithBackoff(async () => {
+      const { data } = await this.http.get<{ type: string; content?: string }>(
+        this.contentsPath(filePath),
+        { params: { ref: ref || this.config.branch } }
+      );
+
+      if (data.type === 'file' && data.content !== undefined) {
+        return Buffer.from(data.content, 'base64').toString('utf-8');
+      }
+
+      throw new Error('Path is not a file');
+    });
+  }
+
+  /**
+   * Create a new branch for draft
+   */
+  async createDraftBranch(branchName: string): Promise<string> {
+    return retryWithBackoff(async () => {
+      const { data } = await this.http.post<{ commit: { id: string } }>(
+        `${this.repoUrl}/branches`,
+        { new_branch_name: branchName, old_branch_name: this.config.branch }
+      );
+
+      return data.commit.id;
+    });
+  }
+
+  /**
+   * Commit file to branch
+   */
+  async commitFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<void> {
+    await this.commitFiles(branchName, [{ path: filePath, content }], message, options);
+  }
+
+  /**
+   * Commit several files as one commit through the change-files API (Gitea 1.20+).
+   * Updates and deletes carry the current blob SHA so concurrent edits are rejected.
+   */
+  async commitFiles(
+    branchName: string,
+    changes: FileChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    const files = await Promise.all(
+      changes.map(async (change) => {
+        const path = `${this.config.docsPath}/${change.path}`;
+        const sha = await this.blobSha(branchName, change.path);
+
+        if (change.content === null) {
+          return { operation: 'delete', path, sha };
+        }
+
+        return {
+          operation: sha ? 'update' : 'create',
+          path,
+          sha,
+          content: Buffer.from(change.content).toString('base64'),
+        };
+      })
+    );
+
+    try {
+      const { data } = await this.http.post<{ commit: { sha: string } }>(
+        `${this.repoUrl}/contents`,
+        { branch: branchName, message, files, author: options.author }
+      );
+      return data.commit.sha;
+    } catch (e: unknown) {
+      const error = e as { status?: number };
+      if (error.status === 409 || error.status === 422) {
+        throw new BranchMovedError(branchName);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Create pull request
+   */
+  async createPullRequest(
+    branchName: string,
+    title: string,
+    body: string,
+    options: PullRequestOptions = {}
+  ): Promise<number> {
+    return retryWithBackoff(async () => {
+      const labels = options.labels?.length ? await this.labelIds(options.labels) : undefined;
+
+      const { data } = await this.http.post<{ number: number }>(`${this.repoUrl}/pulls`, {
+        head: branchName,
+        base: this.config.branch,
+        title,
+        body,
+        labels,
+      });
+
+      if (options.reviewers?.length) {
+        await this.http.post(`${this.repoUrl}/pulls/${data.number}/requested_reviewers`, {
+          reviewers: options.reviewers,
+        });
+      }
+
+      return data.number;
+    });
+  }
+
+  /**
+   * Merge pull request
+   */
+  async mergePullRequest(prNumber: number, method: MergeMethod = 'squash'): Promise<void> {
+    return retryWithBackoff(async () => {
+      await this.http.post(`${this.repoUrl}/pulls/${prNumber}/merge`, { Do: method });
+    });
+  }
+
+  /**
+   * Get pull request state
+   */
+  async getPullRequest(prNumber: number): Promise<PullRequestStatus> {
+    const { data } = await this.http.get<{
+      number: number;
+      state: string;
+      merged: boolean;
+      html_url: string;
+    }>(`${this.repoUrl}/pulls/${prNumber}`);
+
+    return {
+      number: data.number,
+      state: data.merged ? 'merged' : data.state === 'open' ? 'open' : 'closed',
+      url: data.html_url,
+    };
+  }
+
+  /**
+   * List open pull requests into the base branch with their changed docs
+   */
+  async listOpenPullRequests(): Promise<OpenPullRequest[]> {
+    const fullName = `${this.config.owner}/${this.config.repo}`.toLowerCase();
+    const result: OpenPullRequest[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data: pulls } = await this.http.get<GiteaPullRequest[]>(`${this.repoUrl}/pulls`, {
+        params: { state: 'open', limit: 50, page },
+      });
+
+      for (const pr of pulls) {
+        if (pr.base.ref !== this.config.branch) continue;
+        if (pr.head.repo?.full_name.toLowerCase() !== fullName) continue;
+
+        const files = await this.pullRequestFiles(pr.number);
+
+        result.push({
+          number: pr.number,
+          title: pr.title,
+          branch: pr.head.ref,
+          url: pr.html_url,
+          author: pr.user?.login,
+          files: filterDocsPaths(files, this.config.docsPath),
+        });
+      }
+
+      if (pulls.length < 50) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * List branches whose name starts with prefix
+   */
+  async listBranches(prefix: string): Promise<BranchInfo[]> {
+    const result: BranchInfo[] = [];
+
+    // No server-side filter, so page through every branch
+    for (let page = 1; ; page++) {
+      const { data: branches } = await this.http.get<GiteaBranch[]>(`${this.repoUrl}/branches`, {
+        params: { limit: 50, page },
+      });
+
+      for (const branch of branches) {
+        if (!branch.name.startsWith(prefix)) continue;
+        result.push({
+          name: branch.name,
+          sha: branch.commit.id,
+          lastCommitAt: branch.commit.timestamp,
+        });
+      }
+
+      if (branches.length < 50) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete branch
+   */
+  async deleteBranch(branchName: string): Promise<void> {
+    await this.http.delete(`${this.repoUrl}/branches/${encodeURIComponent(branchName)}`);
+  }
+
+  /**
+   * Get commit history for file
+   */
+  async getFileHistory(
+    filePath: string,
+    { ref, page = 1, perPage = 50 }: HistoryOptions = {}
+  ): Promise<FileHistoryEntry[]> {
+    const { data } = await this.http.get<GiteaCommit[]>(`${this.repoUrl}/commits`, {
+      params: {
+        sha: ref || this.config.branch,
+        path: `${this.config.docsPath}/${filePath}`,
+        page,
+        limit: perPage,
+      },
+    });
+
+    return data.map((commit) => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+      date: commit.commit.author?.date || '',
+      author: commit.commit.author?.name || 'Unknown',
+    }));
+  }
+
+  /**
+   * Compare branch against the base branch (needs Gitea 1.22 or later for the compare API).
+   * Files changed on both sides since they split are reported as conflicting.
+   */
+  async getBranchStatus(branchName: string): Promise<BranchStatus> {
+    return retryWithBackoff(async () => {
+      const [baseSha, headSha] = await Promise.all([
+        this.branchSha(this.config.branch),
+        this.branchSha(branchName),
+      ]);
+
+      const draft = await this.compare(baseSha, headSha);
+      const base = await this.compare(headSha, baseSha);
+
+      // There is no merge base endpoint, but draft branches don't merge: the oldest draft
+      // commit (the one whose parent isn't a draft commit) starts from the merge base
+      const draftShas = new Set(draft.commits.map((commit) => commit.sha));
+      const oldest = draft.commits.find((commit) => !draftShas.has(commit.parents?.[0]?.sha ?? ''));
+      const mergeBaseSha = oldest?.parents?.[0]?.sha ?? headSha;
+
+      const changedOnBase = new Set(changedPaths(base));
+      const conflicts = changedPaths(draft).filter((p) => changedOnBase.has(p));
+
+      const conflictingFiles = relativeToDocs(conflicts, this.config.docsPath);
+      return {
+        baseSha,
+        mergeBaseSha,
+        aheadBy: draft.commits.length,
+        behindBy: base.commits.length,
+        conflictingFiles,
+        hasConflicts: conflictingFiles.length > 0,
+      };
+    });
+  }
+
+  /**
+   * Upload media file (image, etc.) to repository
+   */
+  async uploadMedia(
+    filePath: string,
+    content: Buffer,
+    message: string,
+    branch?: string
+  ): Promise<string> {
+    await this.commitFiles(branch || this.config.branch, [{ path: filePath, content }], message);
+    return filePath;
+  }
+
+  /**
+   * Get media file content (raw binary)
+   */
+  async getMediaContent(filePath: string, ref?: string): Promise<Buffer> {
+    const fullPath = `${this.config.docsPath}/${filePath}`;
+    const { data } = await this.http.get<ArrayBuffer>(
+      `${this.repoUrl}/raw/${encodePath(fullPath)}`,
+      { params: { ref: ref || this.config.branch }, responseType: 'arraybuffer' }
+    );
+
+    return Buffer.from(data);
+  }
+
+  async getRepoFile(repoPath: string, ref?: string): Promise<Buffer> {
+    const { data } = await this.http.get<ArrayBuffer>(
+      `${this.repoUrl}/raw/${encodePath(repoPath)}`,
+      { params: { ref: ref || this.config.branch }, responseType: 'arraybuffer' }
+    );
+
+    return Buffer.from(data);
+  }
+
+  private async branchSha(branchName: string): Promise<string> {
+    const { data } = await this.http.get<GiteaBranch>(
+      `${this.repoUrl}/branches/${encodeURIComponent(branchName)}`
+    );
+    return data.commit.id;
+  }
+
+  /**
+   * Commits reachable from head but not from base, with the files each one changed
+   */
+  private async compare(base: string, head: string): Promise<GiteaCompare> {
+    const { data } = await this.http.get<GiteaCompare>(
+      `${this.repoUrl}/compare/${base}...${head}`,
+      {
+        params: { files: true, verification: false },
+      }
+    );
+    return data;
+  }
+
+  /**
+   * Paths changed by a pull request, across every page of its files (Gitea caps a page at
+   * 50 by default)
+   */
+  private async pullRequestFiles(prNumber: number): Promise<string[]> {
+    const paths: string[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data: files } = await this.http.get<
+        Array<{ filename: string; previous_filename?: string }>
+      >(`${this.repoUrl}/pulls/${prNumber}/files`, { params: { limit: 50, page } });
+      // A renamed file touches its old path too
+      for (const file of files) {
+        paths.push(file.filename);
+        if (file.previous_filename) paths.push(file.previous_filename);
+      }
+
+      if (files.length < 50) break;
+    }
+
+    return paths;
+  }
+
+  /**
+   * Blob SHA of a file on branch, or undefined if it does not exist
+   */
+  private async blobSha(branchName: string, filePath: string): Promise<string | undefined> {
+    try {
+      const { data } = await this.http.get<{ sha: string }>(this.contentsPath(filePath), {
+        params: { ref: branchName },
+      });
+      return data.sha;
+    } catch (e: unknown) {
+      const error = e as { status?: number };
+      if (error.status !== 404) throw e;
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve label names to IDs (Gitea sets PR labels by ID)
+   */
+  private async labelIds(names: string[]): Promise<number[]> {
+    const { data } = await this.http.get<Array<{ id: number; name: string }>>(
+      `${this.repoUrl}/labels`,
+      { params: { limit: 100 } }
+    );
+
+    return names.map((name) => {
+      const label = data.find((l) => l.name === name);
+      if (!label) {
+        throw new Error(`Gitea label not found: ${name}`);
+      }
+      return label.id;
+    });
+  }
+
+  private contentsPath(filePath: string): string {
+    return `${this.repoUrl}/contents/${encodePath(`${this.config.docsPath}/${filePath}`)}`;
+  }
+}
+
+/**
+ * Encode each path segment, keeping the slashes
+ */
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Every path changed by the compared commits
+ */
+function changedPaths(compare: GiteaCompare): string[] {
+  const paths = compare.commits.flatMap((commit) => (commit.files || []).map((f) => f.filename));
+  return [...new Set(paths)];
+}
@@ -0,0 +1,555 @@
+import type { AxiosInstance } from 'axios';
+import type { DocsConfig } from '../config';
+import { BranchMovedError } from '../errors';
+import { GitHubAPIError, retryWithBackoff } from '../github/retry';
+import { createHttpClient } from './http';
+import {
+  type BlameLine,
+  type BranchInfo,
+  type BranchStatus,
+  type CommitOptions,
+  type DocTreeItem,
+  type FileChange,
+  type FileHistoryEntry,
+  type GitProvider,
+  type HistoryOptions,
+  type MergeMethod,
+  type OpenPullRequest,
+  type PullRequestOptions,
+  type PullRequestStatus,
+  filterDocsPaths,
+  filterDocsTree,
+  relativeToDocs,
+} from './provider';
+
+interface GitLabTreeItem {
+  path: string;
+  type: 'tree' | 'blob' | 'commit';
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  source_branch: string;
+  source_project_id: number;
+  target_project_id: number;
+  web_url: string;
+  author?: { username: string };
+}
+
+// Rebases run in the background; how long to wait for one before giving up
+const REBASE_POLL_MS = 1000;
+const REBASE_TIMEOUT_MS = 60000;
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  authored_date: string;
+  author_name: string;
+}
+
+interface GitLabBranch {
+  name: string;
+  commit: { id: string; committed_date: string };
+}
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+}
+
+interface GitLabCompare {
+  commits: GitLabCommit[];
+  diffs: GitLabDiff[];
+}
+
+interface GitLabBlameRange {
+  commit: GitLabCommit;
+  lines: string[];
+}
+
+/**
+ * Git provider for GitLab (gitlab.com or self-hosted) using the v4 REST API.
+ * Pull requests map to merge requests, identified by their project-scoped IID.
+ * The API can't merge one branch into another outside a merge request, so syncBranch is
+ * not implemented.
+ */
+export class GitLabProvider implements GitProvider {
+  private http: AxiosInstance;
+  private config: DocsConfig['github'];
+  private project: string;
+
+  constructor(token: string, url: string, config: DocsConfig['github']) {
+    this.http = createHttpClient(`${url.replace(/\/$/, '')}/api/v4`, { 'PRIVATE-TOKEN': token });
+    this.config = config;
+    this.project = encodeURIComponent(`${config.owner}/${config.repo}`);
+  }
+
+  /**
+   * Get documentation file tree
+   * Returns only .md files and their parent directories (excludes assets folders)
+   */
+  async getDocsTree(ref?: string): Promise<DocTreeItem[]> {
+    return retryWithBackoff(async () => {
+      const prefix = `${this.config.docsPath}/`;
+      const items: DocTreeItem[] = [];
+
+      let page: string | undefined = '1';
+      while (page) {
+        const response: { data: GitLabTreeItem[]; headers: Record<string, unknown> } =
+          await this.http.get(`/projects/${this.project}/repository/tree`, {
+            params: {
+              path: this.config.docsPath,
+              ref: ref || this.config.branch,
+              recursive: true,
+              per_page: 100,
+              page,
+            },
+          });
+
+        for (const item of response.data) {
+          if (!item.path.startsWith(prefix)) continue;
+          items.push({
+            path: item.path.slice(prefix.length),
+            type: item.type === 'tree' ? 'dir' : 'file',
+          });
+        }
+
+        page = (response.headers['x-next-page'] as string | undefined) || undefined;
+      }
+
+      return filterDocsTree(items);
+    });
+  }
+
+  /**
+   * Get file content from repository
+   */
+  async getFileContent(filePath: string, ref?: string): Promise<string> {
+    return retryWithBackoff(async () => {
+      const { data } = await this.http.get<{ content: string }>(this.filePath(filePath), {
+        params: { ref: ref || this.config.branch },
+      });
+
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    });
+  }
+
+  /**
+   * Create a new branch for draft
+   */
+  async createDraftBranch(branchName: string): Promise<string> {
+    return retryWithBackoff(async () => {
+      const { data } = await this.http.post<{ commit: { id: string } }>(
+        `/projects/${this.project}/repository/branches`,
+        { branch: branchName, ref: this.config.branch }
+      );
+
+      return data.commit.id;
+    });
+  }
+
+  /**
+   * Commit file to branch
+   */
+  async commitFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<void> {
+    await this.commitFiles(branchName, [{ path: filePath, content }], message, options);
+  }
+
+  /**
+   * Commit several files as one commit through the commits API (atomic on GitLab's side).
+   * Each update carries the file's last commit ID so concurrent edits are rejected.
+   */
+  async commitFiles(
+    branchName: string,
+    changes: FileChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    const actions = await Promise.all(
+      changes.map(async (change) => {
+        const lastCommitId = await this.lastCommitId(branchName, change.path);
+        const base = {
+          file_path: `${this.config.docsPath}/${change.path}`,
+          last_commit_id: lastCommitId,
+        };
+
+        if (change.content === null) {
+          return { ...base, action: 'delete' };
+        }
+
+        return {
+          ...base,
+          action: lastCommitId ? 'update' : 'create',
+          content: Buffer.from(change.content).toString('base64'),
+          encoding: 'base64',
+        };
+      })
+    );
+
+    try {
+      const { data } = await this.http.post<{ id: string }>(
+        `/projects/${this.project}/repository/commits`,
+        {
+          branch: branchName,
+          commit_message: message,
+          actions,
+          author_name: options.author?.name,
+          author_email: options.author?.email,
+        }
+      );
+      return data.id;
+    } catch (e: unknown) {
+      const error = e as { status?: number; response?: { data?: { message?: string } } };
+      if (error.status === 400 && /changed|modified/i.test(error.response?.data?.message || '')) {
+        throw new BranchMovedError(branchName);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Create merge request
+   */
+  async createPullRequest(
+    branchName: string,
+    title: string,
+    body: string,
+    options: PullRequestOptions = {}
+  ): Promise<number> {
+    return retryWithBackoff(async () => {
+      const reviewerIds = await Promise.all((options.reviewers || []).map((u) => this.userId(u)));
+
+      const { data } = await this.http.post<{ iid: number }>(
+        `/projects/${this.project}/merge_requests`,
+        {
+          source_branch: branchName,
+          target_branch: this.config.branch,
+          title,
+          description: body,
+          labels: options.labels?.join(','),
+          reviewer_ids: reviewerIds.length > 0 ? reviewerIds : undefined,
+        }
+      );
+
+      return data.iid;
+    });
+  }
+
+  /**
+   * Merge merge request
+   * GitLab takes only squash per request; rebase first rebases the source branch onto the
+   * target, so a merge commit or fast-forward (per the project settings) follows it.
+   */
+  async mergePullRequest(prNumber: number, method: MergeMethod = 'squash'): Promise<void> {
+    return retryWithBackoff(async () => {
+      if (method === 'rebase') {
+        await this.rebaseMergeRequest(prNumber);
+      }
+      await this.http.put(`/projects/${this.project}/merge_requests/${prNumber}/merge`, {
+        squash: method === 'squash',
+      });
+    });
+  }
+
+  /**
+   * Rebase a merge request's source branch onto its target and wait for it to finish
+   */
+  private async rebaseMergeRequest(prNumber: number): Promise<void> {
+    const url = `/projects/${this.project}/merge_requests/${prNumber}`;
+    await this.http.put(`${url}/rebase`);
+
+    const deadline = Date.now() + REBASE_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const { data } = await this.http.get<{
+        rebase_in_progress?: boolean;
+        merge_error?: string | null;
+      }>(url, { params: { include_rebase_in_progress: true } });
+
+      if (!data.rebase_in_progress) {
+        if (data.merge_error) {
+          throw new GitHubAPIError(`Rebase failed: ${data.merge_error}`, 409);
+        }
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, REBASE_POLL_MS));
+    }
+
+    throw new GitHubAPIError(`Rebase of merge request !${prNumber} is still running`, 409);
+  }
+
+  /**
+   * Get merge request state
+   */
+  async getPullRequest(prNumber: number): Promise<PullRequestStatus> {
+    const { data } = await this.http.get<{ iid: number; state: string; web_url: string }>(
+      `/projects/${this.project}/merge_requests/${prNumber}`
+    );
+
+    return {
+      number: data.iid,
+      state: data.state === 'merged' ? 'merged' : data.state === 'opened' ? 'open' : 'closed',
+      url: data.web_url,
+    };
+  }
+
+  /**
+   * List open merge requests into the base branch with their changed docs
+   */
+  async listOpenPullRequests(): Promise<OpenPullRequest[]> {
+    const mergeRequests = await this.paginate<GitLabMergeRequest>(
+      `/projects/${this.project}/merge_requests`,
+      { state: 'opened', target_branch: this.config.branch }
+    );
+
+    const result: OpenPullRequest[] = [];
+    for (const mr of mergeRequests) {
+      if (mr.source_project_id !== mr.target_project_id) continue;
+
+      const diffs = await this.paginate<GitLabDiff>(
+        `/projects/${this.project}/merge_requests/${mr.iid}/diffs`,
+        {}
+      );
+      const paths = changedPaths(diffs);
+
+      result.push({
+        number: mr.iid,
+        title: mr.title,
+        branch: mr.source_branch,
+        url: mr.web_url,
+        author: mr.author?.username,
+        files: filterDocsPaths(paths, this.config.docsPath),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * List branches whose name starts with prefix
+   */
+  async listBranches(prefix: string): Promise<BranchInfo[]> {
+    // ^ anchors the search to the start of the name
+    const branches = await this.paginate<GitLabBranch>(
+      `/projects/${this.project}/repository/branches`,
+      { search: `^${prefix}` }
+    );
+
+    return branches
+      .filter((branch) => branch.name.startsWith(prefix))
+      .map((branch) => ({
+        name: branch.name,
+        sha: branch.commit.id,
+        lastCommitAt: branch.commit.committed_date,
+      }));
+  }
+
+  /**
+   * Delete branch
+   */
+  async deleteBranch(branchName: string): Promise<void> {
+    await this.http.delete(
+      `/projects/${this.project}/repository/branches/${encodeURIComponent(branchName)}`
+    );
+  }
+
+  /**
+   * Get commit history for file
+   */
+  async getFileHistory(
+    filePath: string,
+    { ref, page = 1, perPage = 50 }: HistoryOptions = {}
+  ): Promise<FileHistoryEntry[]> {
+    const { data } = await this.http.get<GitLabCommit[]>(
+      `/projects/${this.project}/repository/commits`,
+      {
+        params: {
+          ref_name: ref || this.config.branch,
+          path: `${this.config.docsPath}/${filePath}`,
+          page,
+          per_page: perPage,
+        },
+      }
+    );
+
+    return data.map((commit) => ({
+      sha: commit.id,
+      message: commit.message,
+      date: commit.authored_date || '',
+      author: commit.author_name || 'Unknown',
+    }));
+  }
+
+  /**
+   * Get per-line blame for file
+   */
+  async getFileBlame(filePath: string, ref?: string): Promise<BlameLine[]> {
+    const { data } = await this.http.get<GitLabBlameRange[]>(`${this.filePath(filePath)}/blame`, {
+      params: { ref: ref || this.config.branch },
+    });
+
+    const lines: BlameLine[] = [];
+    for (const range of data) {
+      for (const content of range.lines) {
+        lines.push({
+          line: lines.length + 1,
+          content,
+          sha: range.commit.id,
+          author: range.commit.author_name || 'Unknown',
+          date: range.commit.authored_date || '',
+          message: range.commit.message,
+        });
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Compare branch against the base branch. Files changed on both sides since the merge
+   * base are reported as conflicting.
+   */
+  async getBranchStatus(branchName: string): Promise<BranchStatus> {
+    return retryWithBackoff(async () => {
+      const { data: branch } = await this.http.get<GitLabBranch>(
+        `/projects/${this.project}/repository/branches/${encodeURIComponent(this.config.branch)}`
+      );
+      const baseSha = branch.commit.id;
+
+      const { data: mergeBase } = await this.http.get<{ id: string }>(
+        `/projects/${this.project}/repository/merge_base`,
+        { params: { refs: [baseSha, branchName] } }
+      );
+      const mergeBaseSha = mergeBase.id;
+
+      const draft = await this.compare(mergeBaseSha, branchName);
+      const base = await this.compare(mergeBaseSha, baseSha);
+
+      const changedOnBase = new Set(changedPaths(base.diffs));
+      const conflicts = changedPaths(draft.diffs).filter((p) => changedOnBase.has(p));
+
+      const conflictingFiles = relativeToDocs(conflicts, this.config.docsPath);
+      return {
+        baseSha,
+        mergeBaseSha,
+        aheadBy: draft.commits.length,
+        behindBy: base.commits.length,
+        conflictingFiles,
+        hasConflicts: conflictingFiles.length > 0,
+      };
+    });
+  }
+
+  /**
+   * Upload media file (image, etc.) to repository
+   */
+  async uploadMedia(
+    filePath: string,
+    content: Buffer,
+    message: string,
+    branch?: string
+  ): Promise<string> {
+    await this.commitFiles(branch || this.config.branch, [{ path: filePath, content }], message);
+    return filePath;
+  }
+
+  /**
+   * Get media file content (raw binary)
+   */
+  async getMediaContent(filePath: string, ref?: string): Promise<Buffer> {
+    const { data } = await this.http.get<ArrayBuffer>(`${this.filePath(filePath)}/raw`, {
+      params: { ref: ref || this.config.branch },
+      responseType: 'arraybuffer',
+    });
+
+    return Buffer.from(data);
+  }
+
+  async getRepoFile(repoPath: string, ref?: string): Promise<Buffer> {
+    const { data } = await this.http.get<ArrayBuffer>(
+      `/projects/${this.project}/repository/files/${encodeURIComponent(repoPath)}/raw`,
+      { params: { ref: ref || this.config.branch }, responseType: 'arraybuffer' }
+    );
+
+    return Buffer.from(data);
+  }
+
+  /**
+   * Last commit that touched a file on branch, or undefined if it does not exist
+   */
+  private async lastCommitId(branchName: string, filePath: string): Promise<string | undefined> {
+    try {
+      const { headers } = await this.http.head(this.filePath(filePath), {
+        params: { ref: branchName },
+      });
+      return headers['x-gitlab-last-commit-id'] as string;
+    } catch (e: unknown) {
+      const error = e as { status?: number };
+      if (error.status !== 404) throw e;
+      return undefined;
+    }
+  }
+
+  /**
+   * Commits and file changes from one ref to another
+   */
+  private async compare(from: string, to: string): Promise<GitLabCompare> {
+    const { data } = await this.http.get<GitLabCompare>(
+      `/projects/${this.project}/repository/compare`,
+      { params: { from, to } }
+    );
+    return data;
+  }
+
+  /**
+   * Fetch every page of a list endpoint (follows x-next-page)
+   */
+  private async paginate<T>(url: string, params: Record<string, unknown>): Promise<T[]> {
+    const items: T[] = [];
+
+    let page: string | undefined = '1';
+    while (page) {
+      const response: { data: T[]; headers: Record<string, unknown> } = await this.http.get(url, {
+        params: { ...params, per_page: 100, page },
+      });
+      items.push(...response.data);
+      page = (response.headers['x-next-page'] as string | undefined) || undefined;
+    }
+
+    return items;
+  }
+
+  /**
+   * Resolve a username to its user ID (merge request reviewers are set by ID)
+   */
+  private async userId(username: string): Promise<number> {
+    const { data } = await this.http.get<Array<{ id: number }>>('/users', {
+      params: { username },
+    });
+
+    if (data.length === 0) {
+      throw new Error(`GitLab user not found: ${username}`);
+    }
+    return data[0].id;
+  }
+
+  private filePath(filePath: string): string {
+    const fullPath = encodeURIComponent(`${this.config.docsPath}/${filePath}`);
+    return `/projects/${this.project}/repository/files/${fullPath}`;
+  }
+}
+
+/**
+ * Paths touched by a diff (both paths of a rename)
+ */
+function changedPaths(diffs: GitLabDiff[]): string[] {
+  return diffs.flatMap((d) =>
+    d.old_path === d.new_path ? [d.new_path] : [d.old_path, d.new_path]
+  );
+}
@@ -0,0 +1,20 @@
+import axios, { type AxiosError, type AxiosInstance } from 'axios';
+
+/**
+ * Create an HTTP client for a hosted git REST API.
+ * Failed responses are rejected with `status` and `response.headers` set,
+ * matching the Octokit error shape that routes and retryWithBackoff expect.
+ */
+export function createHttpClient(baseURL: string, headers: Record<string, string>): AxiosInstance {
+  const client = axios.create({
+    baseURL: baseURL.replace(/\/$/, ''),
+    headers,
+  });
+
+  client.interceptors.response.use(undefined, (error: AxiosError) => {
+    error.status = error.response?.status;
+    return Promise.reject(error);
+  });
+
+  return client;
+}
@@ -0,0 +1,82 @@
+import type { DocsConfig } from '../config';
+import { type TokenSource, getInstallationTokenProvider } from '../github/app-auth';
+import { GitHubClient } from '../github/client';
+import { type DocSource, getSources } from '../sources';
+import { GiteaProvider } from './gitea';
+import { GitLabProvider } from './gitlab';
+import { LocalGitProvider } from './local';
+import type { GitProvider } from './provider';
+
+/**
+ * Create the git provider selected by config.git.provider, for a documentation source
+ * (defaults to the first one)
+ */
+export function createGitProvider(
+  config: DocsConfig,
+  source: DocSource = getSources(config)[0]
+): GitProvider {
+  const repository = {
+    owner: source.owner,
+    repo: source.repo,
+    branch: source.branch,
+    docsPath: source.docsPath,
+  };
+
+  switch (config.git.provider) {
+    case 'gitlab':
+      return new GitLabProvider(
+        source.token || process.env.GITLAB_TOKEN || '',
+        config.git.url,
+        repository
+      );
+    case 'gitea':
+      return new GiteaProvider(
+        source.token || process.env.GITEA_TOKEN || '',
+        config.git.url,
+        repository
+      );
+    case 'local':
+      return new LocalGitProvider(source.repoPath || config.git.repoPath, repository);
+    default:
+      return new GitHubClient(source.token || githubAuth(), repository);
+  }
+}
+
+/**
+ * GitHub App installation auth when GITHUB_APP_ID is set, otherwise GITHUB_TOKEN
+ */
+export function githubAuth(): string | TokenSource {
+  if (process.env.GITHUB_APP_ID) {
+    return getInstallationTokenProvider({
+      appId: process.env.GITHUB_APP_ID,
+      // Keys pasted into .env usually have escaped newlines
+      privateKey: (process.env.GITHUB_APP_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+      installationId: process.env.GITHUB_APP_INSTALLATION_ID || '',
+    });
+  }
+  return process.env.GITHUB_TOKEN || '';
+}
+
+export { GitLabProvider } from './gitlab';
+export { GiteaProvider } from './gitea';
+export { LocalGitProvider, GitCommandError } from './local';
+export { filterDocsTree, filterDocsPaths, appendCoAuthors, relativeToDocs } from './provider';
+export type {
+  GitProvider,
+  CommitAuthor,
+  CommitOptions,
+  DocTreeItem,
+  FileChange,
+  FileHistoryEntry,
+  HistoryOptions,
+  BlameLine,
+  BranchInfo,
+  BranchStatus,
+  SyncStrategy,
+  SyncOptions,
+  MergeMethod,
+  PullRequestOptions,
+  PullRequestStatus,
+  OpenPullRequest,
+  SyncResult,
+} from './provider';
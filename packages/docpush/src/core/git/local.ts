@@ -0,0 +1,665 @@
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { DocsConfig } from '../config';
+import { BranchMovedError } from '../errors';
+import {
+  type BlameLine,
+  type BranchInfo,
+  type BranchStatus,
+  type CommitOptions,
+  type DocTreeItem,
+  type FileChange,
+  type FileHistoryEntry,
+  type GitProvider,
+  type HistoryOptions,
+  type MergeMethod,
+  type OpenPullRequest,
+  type PullRequestOptions,
+  type PullRequestStatus,
+  type SyncOptions,
+  type SyncResult,
+  type SyncStrategy,
+  filterDocsPaths,
+  filterDocsTree,
+  relativeToDocs,
+} from './provider';
+
+const PULLS_FILE = 'docpush-pulls.json';
+
+// Identity used when the environment does not provide one
+const DEFAULT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'DocPush',
+  GIT_AUTHOR_EMAIL: 'docpush@localhost',
+  GIT_COMMITTER_NAME: 'DocPush',
+  GIT_COMMITTER_EMAIL: 'docpush@localhost',
+};
+
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+interface GitRunOptions {
+  input?: string | Buffer;
+  env?: Record<string, string>;
+}
+
+interface GitRunResult {
+  code: number;
+  stdout: Buffer;
+  stderr: string;
+}
+
+interface LocalPullRequest {
+  number: number;
+  branch: string;
+  title: string;
+  body: string;
+  state: 'open' | 'merged' | 'closed';
+  labels?: string[];
+  reviewers?: string[];
+}
+
+/**
+ * Git provider backed by a bare repository on the local filesystem.
+ * Pull requests are emulated with a JSON file stored inside the repository directory.
+ */
+export class LocalGitProvider implements GitProvider {
+  private repoPath: string;
+  private config: DocsConfig['github'];
+
+  constructor(repoPath: string, config: DocsConfig['github']) {
+    this.repoPath = path.resolve(process.cwd(), repoPath);
+    this.config = config;
+  }
+
+  /**
+   * Get documentation file tree
+   * Returns only .md files and their parent directories (excludes assets folders)
+   */
+  async getDocsTree(ref?: string): Promise<DocTreeItem[]> {
+    const output = await this.git([
+      'ls-tree',
+      '-r',
+      '-t',
+      '-z',
+      '--full-tree',
+      this.revision(ref),
+      '--',
+      this.config.docsPath,
+    ]);
+
+    const prefix = `${this.config.docsPath}/`;
+    const items: DocTreeItem[] = [];
+
+    for (const entry of output.toString('utf-8').split('\0')) {
+      // Format: <mode> SP <type> SP <sha> TAB <path>
+      const tab = entry.indexOf('\t');
+      if (tab === -1) continue;
+
+      const type = entry.slice(0, tab).split(' ')[1];
+      const entryPath = entry.slice(tab + 1);
+      if (!entryPath.startsWith(prefix)) continue;
+
+      items.push({
+        path: entryPath.slice(prefix.length),
+        type: type === 'tree' ? 'dir' : 'file',
+      });
+    }
+
+    return filterDocsTree(items);
+  }
+
+  /**
+   * Get file content from repository
+   */
+  async getFileContent(filePath: string, ref?: string): Promise<string> {
+    const content = await this.readBlob(filePath, ref);
+    return content.toString('utf-8');
+  }
+
+  /**
+   * Create a new branch for draft
+   */
+  async createDraftBranch(branchName: string): Promise<string> {
+    const sha = await this.resolveBranch(this.config.branch);
+
+    // Empty old value makes git refuse to overwrite an existing branch
+    await this.git(['update-ref', `refs/heads/${branchName}`, sha, '']);
+
+    return sha;
+  }
+
+  /**
+   * Commit file to branch
+   */
+  async commitFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<void> {
+    await this.commitFiles(branchName, [{ path: filePath, content }], message, options);
+  }
+
+  /**
+   * Commit several files as one commit, built in a temporary index on top of the branch head
+   */
+  async commitFiles(
+    branchName: string,
+    changes: FileChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    const parent = await this.resolveBranch(branchName);
+    const tree = await this.buildTree(parent, changes);
+    const commit = await this.gitText(['commit-tree', tree, '-p', parent, '-m', message], {
+      env: authorEnv(options),
+    });
+
+    // Compare-and-swap against the parent we built on
+    const update = await this.run(['update-ref', `refs/heads/${branchName}`, commit, parent]);
+    if (update.code !== 0) {
+      throw new BranchMovedError(branchName);
+    }
+
+    return commit;
+  }
+
+  /**
+   * Create pull request
+   */
+  async createPullRequest(
+    branchName: string,
+    title: string,
+    body: string,
+    options: PullRequestOptions = {}
+  ): Promise<number> {
+    await this.resolveBranch(branchName);
+
+    const pulls = await this.loadPulls();
+    const number = pulls.reduce((max, pr) => Math.max(max, pr.number), 0) + 1;
+    pulls.push({
+      number,
+      branch: branchName,
+      title,
+      body,
+      state: 'open',
+      labels: options.labels,
+      reviewers: options.reviewers,
+    });
+    await this.savePulls(pulls);
+
+    return number;
+  }
+
+  /**
+   * Merge pull request. Rebase fast-forwards when the base has not moved, otherwise it
+   * lands the changes as a single commit like squash.
+   */
+  async mergePullRequest(prNumber: number, method: MergeMethod = 'squash'): Promise<void> {
+    const pulls = await this.loadPulls();
+    const pr = pulls.find((p) => p.number === prNumber);
+
+    if (!pr) {
+      throw new GitCommandError(`Pull request not found: #${prNumber}`, 404);
+    }
+    if (pr.state !== 'open') {
+      throw new GitCommandError(`Pull request #${prNumber} is not open`, 405);
+    }
+
+    const baseSha = await this.resolveBranch(this.config.branch);
+    const headSha = await this.resolveBranch(pr.branch);
+
+    const merge = await this.run(['merge-tree', '--write-tree', baseSha, headSha]);
+    if (merge.code === 1) {
+      throw new GitCommandError(`Pull request #${prNumber} has merge conflicts`, 409);
+    }
+    if (merge.code !== 0) {
+      throw new GitCommandError(merge.stderr || 'git merge-tree failed');
+    }
+
+    const fastForward =
+      method === 'rebase' &&
+      (await this.run(['merge-base', '--is-ancestor', baseSha, headSha])).code === 0;
+
+    let commit = headSha;
+    if (!fastForward) {
+      const tree = merge.stdout.toString('utf-8').split('\n')[0].trim();
+      const parents = method === 'merge' ? ['-p', baseSha, '-p', headSha] : ['-p', baseSha];
+      commit = await this.gitText([
+        'commit-tree',
+        tree,
+        ...parents,
+        '-m',
+        `${pr.title} (#${prNumber})`,
+      ]);
+    }
+    await this.git(['update-ref', `refs/heads/${this.config.branch}`, commit, baseSha]);
+
+    pr.state = 'merged';
+    await this.savePulls(pulls);
+  }
+
+  /**
+   * Get pull request state
+   */
+  async getPullRequest(prNumber: number): Promise<PullRequestStatus> {
+    const pulls = await this.loadPulls();
+    const pr = pulls.find((p) => p.number === prNumber);
+
+    if (!pr) {
+      throw new GitCommandError(`Pull request not found: #${prNumber}`, 404);
+    }
+
+    return { number: pr.number, state: pr.state };
+  }
+
+  /**
+   * List open pull requests with their changed docs
+   */
+  async listOpenPullRequests(): Promise<OpenPullRequest[]> {
+    const pulls = await this.loadPulls();
+    const result: OpenPullRequest[] = [];
+
+    for (const pr of pulls.filter((p) => p.state === 'open')) {
+      const output = await this.gitText([
+        'diff',
+        '--name-only',
+        `refs/heads/${this.config.branch}...refs/heads/${pr.branch}`,
+      ]);
+
+      result.push({
+        number: pr.number,
+        title: pr.title,
+        branch: pr.branch,
+        files: filterDocsPaths(output.split('\n').filter(Boolean), this.config.docsPath),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * List branches whose name starts with prefix
+   */
+  async listBranches(prefix: string): Promise<BranchInfo[]> {
+    const output = await this.gitText([
+      'for-each-ref',
+      '--format=%(refname:lstrip=2)%00%(objectname)%00%(committerdate:iso-strict)',
+      'refs/heads/',
+    ]);
+
+    return output
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [name, sha, lastCommitAt] = line.split('\0');
+        return { name, sha, lastCommitAt };
+      })
+      .filter((branch) => branch.name.startsWith(prefix));
+  }
+
+  /**
+   * Delete branch
+   */
+  async deleteBranch(branchName: string): Promise<void> {
+    const sha = await this.resolveBranch(branchName);
+    await this.git(['update-ref', '-d', `refs/heads/${branchName}`, sha]);
+  }
+
+  /**
+   * Get commit history for file
+   */
+  async getFileHistory(
+    filePath: string,
+    { ref, page = 1, perPage = 50 }: HistoryOptions = {}
+  ): Promise<FileHistoryEntry[]> {
+    const fullPath = `${this.config.docsPath}/${filePath}`;
+
+    const output = await this.git([
+      'log',
+      '-n',
+      String(perPage),
+      `--skip=${(page - 1) * perPage}`,
+      '--format=%H%x00%an%x00%aI%x00%B%x1e',
+      this.revision(ref),
+      '--',
+      fullPath,
+    ]);
+
+    return output
+      .toString('utf-8')
+      .split('\x1e')
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [sha, author, date, message] = record.split('\0');
+        return {
+          sha,
+          message: message.trim(),
+          date,
+          author: author || 'Unknown',
+        };
+      });
+  }
+
+  /**
+   * Get per-line blame for file
+   */
+  async getFileBlame(filePath: string, ref?: string): Promise<BlameLine[]> {
+    const fullPath = `${this.config.docsPath}/${filePath}`;
+
+    const result = await this.run([
+      'blame',
+      '--line-porcelain',
+      this.revision(ref),
+      '--',
+      fullPath,
+    ]);
+    if (result.code !== 0) {
+      throw new GitCommandError(`Not Found: ${fullPath}`, 404);
+    }
+
+    // Every line is a "<sha> <orig> <final> ..." header, commit fields, then "\t<content>"
+    const lines: BlameLine[] = [];
+    let current: Partial<BlameLine> & { time?: number } = {};
+
+    for (const row of result.stdout.toString('utf-8').split('\n')) {
+      if (row.startsWith('\t')) {
+        lines.push({
+          line: lines.length + 1,
+          content: row.slice(1),
+          sha: current.sha || '',
+          author: current.author || 'Unknown',
+          date: current.time ? new Date(current.time * 1000).toISOString() : '',
+          message: current.message || '',
+        });
+        current = {};
+      } else if (/^[0-9a-f]{40} /.test(row)) {
+        current.sha = row.slice(0, 40);
+      } else if (row.startsWith('author ')) {
+        current.author = row.slice('author '.length);
+      } else if (row.startsWith('author-time ')) {
+        current.time = Number(row.slice('author-time '.length));
+      } else if (row.startsWith('summary ')) {
+        current.message = row.slice('summary '.length);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Compare branch against the base branch; conflicts come from a trial merge-tree
+   */
+  async getBranchStatus(branchName: string): Promise<BranchStatus> {
+    const baseSha = await this.resolveBranch(this.config.branch);
+    const headSha = await this.resolveBranch(branchName);
+
+    const mergeBaseSha = await this.gitText(['merge-base', baseSha, headSha]);
+    const aheadBy = Number(await this.gitText(['rev-list', '--count', `${baseSha}..${headSha}`]));
+    const behindBy = Number(await this.gitText(['rev-list', '--count', `${headSha}..${baseSha}`]));
+
+    const merge = behindBy > 0 ? await this.mergeTree(baseSha, headSha) : null;
+    const conflictingFiles = merge?.conflicts || [];
+
+    return {
+      baseSha,
+      mergeBaseSha,
+      aheadBy,
+      behindBy,
+      conflictingFiles,
+      hasConflicts: conflictingFiles.length > 0,
+    };
+  }
+
+  /**
+   * Bring the base branch into branch. Rebase squashes the branch's changes into a
+   * single commit on top of the base head.
+   */
+  async syncBranch(
+    branchName: string,
+    strategy: SyncStrategy,
+    message: string,
+    options: SyncOptions = {}
+  ): Promise<SyncResult> {
+    const baseSha = await this.resolveBranch(this.config.branch);
+    const headSha = await this.resolveBranch(branchName);
+
+    const behind = await this.gitText(['rev-list', '--count', `${headSha}..${baseSha}`]);
+    if (Number(behind) === 0) {
+      return { status: 'up-to-date', baseSha, conflictingFiles: [] };
+    }
+
+    const resolutions = options.resolutions || [];
+    const resolved = new Set(resolutions.map((change) => change.path));
+
+    const merge = await this.mergeTree(baseSha, headSha);
+    const conflicts = merge.conflicts.filter((file) => !resolved.has(file));
+    if (conflicts.length > 0) {
+      return { status: 'conflict', baseSha, conflictingFiles: conflicts };
+    }
+
+    // Resolved files replace the conflict markers merge-tree left in its tree
+    const tree =
+      resolutions.length > 0 ? await this.buildTree(merge.tree, resolutions) : merge.tree;
+
+    const parents = strategy === 'merge' ? ['-p', headSha, '-p', baseSha] : ['-p', baseSha];
+    const commit = await this.gitText(['commit-tree', tree, ...parents, '-m', message], {
+      env: authorEnv(options),
+    });
+
+    const update = await this.run(['update-ref', `refs/heads/${branchName}`, commit, headSha]);
+    if (update.code !== 0) {
+      throw new BranchMovedError(branchName);
+    }
+
+    return { status: 'synced', sha: commit, baseSha, conflictingFiles: [] };
+  }
+
+  /**
+   * Upload media file (image, etc.) to repository
+   */
+  async uploadMedia(
+    filePath: string,
+    content: Buffer,
+    message: string,
+    branch?: string
+  ): Promise<string> {
+    await this.commitFiles(branch || this.config.branch, [{ path: filePath, content }], message);
+    return filePath;
+  }
+
+  /**
+   * Get media file content (raw binary)
+   */
+  async getMediaContent(filePath: string, ref?: string): Promise<Buffer> {
+    return this.readBlob(filePath, ref);
+  }
+
+  async getRepoFile(repoPath: string, ref?: string): Promise<Buffer> {
+    return this.readPath(repoPath, ref);
+  }
+
+  /**
+   * Read a blob under docsPath
+   */
+  private async readBlob(filePath: string, ref?: string): Promise<Buffer> {
+    return this.readPath(`${this.config.docsPath}/${filePath}`, ref);
+  }
+
+  /**
+   * Read a blob by repository path, throwing a 404 error if it does not exist
+   */
+  private async readPath(fullPath: string, ref?: string): Promise<Buffer> {
+    const spec = `${this.revision(ref)}:${fullPath}`;
+
+    // Fails for missing paths and for trees alike
+    const result = await this.run(['cat-file', 'blob', spec]);
+    if (result.code !== 0) {
+      throw new GitCommandError(`Not Found: ${fullPath}`, 404);
+    }
+
+    return result.stdout;
+  }
+
+  /**
+   * Write a tree with changes applied on top of an existing tree, using a temporary index
+   */
+  private async buildTree(baseTree: string, changes: FileChange[]): Promise<string> {
+    const indexFile = path.join(os.tmpdir(), `docpush-index-${randomUUID()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      await this.git(['read-tree', baseTree], { env });
+
+      for (const change of changes) {
+        const fullPath = `${this.config.docsPath}/${change.path}`;
+
+        if (change.content === null) {
+          // Mode 0 removes the entry; --force-remove would need a work tree
+          await this.git(['update-index', '--index-info'], {
+            env,
+            input: `0 ${'0'.repeat(40)}\t${fullPath}\n`,
+          });
+          continue;
+        }
+
+        const blob = await this.gitText(['hash-object', '-w', '--stdin'], {
+          input: change.content,
+        });
+        await this.git(['update-index', '--add', '--cacheinfo', `100644,${blob},${fullPath}`], {
+          env,
+        });
+      }
+
+      return await this.gitText(['write-tree'], { env });
+    } finally {
+      await fs.remove(indexFile);
+    }
+  }
+
+  /**
+   * Trial merge of two commits without touching any ref
+   */
+  private async mergeTree(
+    baseSha: string,
+    headSha: string
+  ): Promise<{ tree: string; conflicts: string[] }> {
+    const result = await this.run([
+      'merge-tree',
+      '--write-tree',
+      '--name-only',
+      '--no-messages',
+      baseSha,
+      headSha,
+    ]);
+    if (result.code !== 0 && result.code !== 1) {
+      throw new GitCommandError(result.stderr || 'git merge-tree failed');
+    }
+
+    // Output: tree OID, then one conflicted path per line
+    const [tree, ...paths] = result.stdout.toString('utf-8').trim().split('\n');
+    const conflicts =
+      result.code === 1 ? relativeToDocs(paths.filter(Boolean), this.config.docsPath) : [];
+
+    return { tree: tree.trim(), conflicts };
+  }
+
+  /**
+   * Revision argument for a caller-supplied ref (defaults to the base branch)
+   */
+  private revision(ref?: string): string {
+    if (!ref) return `refs/heads/${this.config.branch}`;
+
+    // Would be parsed as an option by git
+    if (ref.startsWith('-')) {
+      throw new GitCommandError(`Invalid ref: ${ref}`, 400);
+    }
+    return ref;
+  }
+
+  /**
+   * Resolve branch head SHA, throwing a 404 error if the branch does not exist
+   */
+  private async resolveBranch(branchName: string): Promise<string> {
+    const result = await this.run([
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      `refs/heads/${branchName}^{commit}`,
+    ]);
+    if (result.code !== 0) {
+      throw new GitCommandError(`Branch not found: ${branchName}`, 404);
+    }
+    return result.stdout.toString('utf-8').trim();
+  }
+
+  private async loadPulls(): Promise<LocalPullRequest[]> {
+    const filePath = path.join(this.repoPath, PULLS_FILE);
+    if (await fs.pathExists(filePath)) {
+      return fs.readJson(filePath);
+    }
+    return [];
+  }
+
+  private async savePulls(pulls: LocalPullRequest[]): Promise<void> {
+    await fs.writeJson(path.join(this.repoPath, PULLS_FILE), pulls, { spaces: 2 });
+  }
+
+  private async gitText(args: string[], options: GitRunOptions = {}): Promise<string> {
+    const output = await this.git(args, options);
+    return output.toString('utf-8').trim();
+  }
+
+  private async git(args: string[], options: GitRunOptions = {}): Promise<Buffer> {
+    const result = await this.run(args, options);
+    if (result.code !== 0) {
+      throw new GitCommandError(result.stderr || `git ${args[0]} failed`);
+    }
+    return result.stdout;
+  }
+
+  private run(args: string[], options: GitRunOptions = {}): Promise<GitRunResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', ['--git-dir', this.repoPath, ...args], {
+        env: { ...DEFAULT_IDENTITY, ...process.env, ...options.env },
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+      child.on('error', reject);
+      child.on('close', (code) => {
+        resolve({
+          code: code ?? 1,
+          stdout: Buffer.concat(stdout),
+          stderr: Buffer.concat(stderr).toString('utf-8').trim(),
+        });
+      });
+
+      child.stdin.end(options.input);
+    });
+  }
+}
+
+/**
+ * Author overrides for commit-tree; the committer stays the service identity
+ */
+function authorEnv(options: CommitOptions): Record<string, string> {
+  return options.author
+    ? { GIT_AUTHOR_NAME: options.author.name, GIT_AUTHOR_EMAIL: options.author.email }
+    : {};
+}
@@ -0,0 +1,301 @@
+/**
+ * Item in the documentation tree (paths are relative to docsPath)
+ */
+export interface DocTreeItem {
+  path: string;
+  type: 'file' | 'dir';
+}
+
+/**
+ * Single commit in a file's history
+ */
+export interface FileHistoryEntry {
+  sha: string;
+  message: string;
+  date: string;
+  author: string;
+}
+
+/**
+ * Page of a file's history, defaulting to the base branch, page 1 and 50 commits per page
+ */
+export interface HistoryOptions {
+  ref?: string;
+  page?: number;
+  perPage?: number;
+}
+
+/**
+ * Line of a file with the commit that last changed it (line numbers are 1-based)
+ */
+export interface BlameLine {
+  line: number;
+  content: string;
+  sha: string;
+  author: string;
+  date: string;
+  message: string;
+}
+
+/**
+ * Branch head, with the date of its last commit (ISO 8601)
+ */
+export interface BranchInfo {
+  name: string;
+  sha: string;
+  lastCommitAt: string;
+}
+
+/**
+ * Change to a single file in a multi-file commit.
+ * String content is written as UTF-8; `null` deletes the file.
+ */
+export interface FileChange {
+  path: string;
+  content: string | Buffer | null;
+}
+
+/**
+ * Person recorded as the author of a commit
+ */
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface CommitOptions {
+  // Defaults to the service identity; the committer is always the service identity
+  author?: CommitAuthor;
+}
+
+export type MergeMethod = 'squash' | 'merge' | 'rebase';
+
+export interface PullRequestOptions {
+  labels?: string[];
+  // Usernames on the git host
+  reviewers?: string[];
+}
+
+export interface PullRequestStatus {
+  number: number;
+  state: 'open' | 'merged' | 'closed';
+  url?: string;
+}
+
+/**
+ * Open pull request into the base branch, from a branch in the same repository
+ */
+export interface OpenPullRequest {
+  number: number;
+  title: string;
+  branch: string;
+  url?: string;
+  // Username on the git host
+  author?: string;
+  // Changed files under docsPath, relative to it
+  files: string[];
+}
+
+/**
+ * How a branch relates to the base branch
+ */
+export interface BranchStatus {
+  // Current head of the base branch
+  baseSha: string;
+  // Common ancestor of the branch and the base branch
+  mergeBaseSha: string;
+  aheadBy: number;
+  behindBy: number;
+  // Paths (relative to docsPath where possible) that cannot be merged cleanly
+  conflictingFiles: string[];
+  hasConflicts: boolean;
+}
+
+export type SyncStrategy = 'merge' | 'rebase';
+
+export interface SyncOptions extends CommitOptions {
+  // Resolved versions of conflicting files, written into the sync commit
+  resolutions?: FileChange[];
+}
+
+export interface SyncResult {
+  status: 'up-to-date' | 'synced' | 'conflict';
+  // New branch head when synced
+  sha?: string;
+  // Base branch head the branch now includes
+  baseSha: string;
+  conflictingFiles: string[];
+}
+
+/**
+ * Git backend used by the server routes.
+ * All file paths are relative to the configured docsPath.
+ */
+export interface GitProvider {
+  /**
+   * Get documentation file tree (.md files and their parent directories), defaulting to the
+   * base branch
+   */
+  getDocsTree(ref?: string): Promise<DocTreeItem[]>;
+
+  /**
+   * Get file content, defaulting to the base branch
+   */
+  getFileContent(filePath: string, ref?: string): Promise<string>;
+
+  /**
+   * Create a new branch from the base branch head, returning the base SHA
+   */
+  createDraftBranch(branchName: string): Promise<string>;
+
+  /**
+   * Commit file to branch
+   */
+  commitFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    options?: CommitOptions
+  ): Promise<void>;
+
+  /**
+   * Commit several file changes to branch as one commit, returning the new commit SHA.
+   * Throws BranchMovedError if the branch head changes while the commit is being written.
+   */
+  commitFiles(
+    branchName: string,
+    changes: FileChange[],
+    message: string,
+    options?: CommitOptions
+  ): Promise<string>;
+
+  /**
+   * Open a pull request from branch into the base branch
+   */
+  createPullRequest(
+    branchName: string,
+    title: string,
+    body: string,
+    options?: PullRequestOptions
+  ): Promise<number>;
+
+  /**
+   * Merge pull request into the base branch
+   */
+  mergePullRequest(prNumber: number, method?: MergeMethod): Promise<void>;
+
+  /**
+   * Get pull request state
+   */
+  getPullRequest(prNumber: number): Promise<PullRequestStatus>;
+
+  /**
+   * List open pull requests into the base branch (PRs from forks are skipped)
+   */
+  listOpenPullRequests(): Promise<OpenPullRequest[]>;
+
+  /**
+   * List branches whose name starts with prefix
+   */
+  listBranches(prefix: string): Promise<BranchInfo[]>;
+
+  /**
+   * Delete branch
+   */
+  deleteBranch(branchName: string): Promise<void>;
+
+  /**
+   * Get one page of commit history for file, newest first
+   */
+  getFileHistory(filePath: string, options?: HistoryOptions): Promise<FileHistoryEntry[]>;
+
+  /**
+   * Get the last commit to change each line of file, defaulting to the base branch
+   * (optional - not every host exposes blame)
+   */
+  getFileBlame?(filePath: string, ref?: string): Promise<BlameLine[]>;
+
+  /**
+   * Compare branch against the base branch (optional - not all hosts can do this without a PR)
+   */
+  getBranchStatus?(branchName: string): Promise<BranchStatus>;
+
+  /**
+   * Bring the base branch into branch, by merge commit or by replaying the branch on top
+   * of the base head. Conflicts not covered by options.resolutions are reported in the
+   * result, leaving the branch untouched.
+   */
+  syncBranch?(
+    branchName: string,
+    strategy: SyncStrategy,
+    message: string,
+    options?: SyncOptions
+  ): Promise<SyncResult>;
+
+  /**
+   * Upload media file (image, etc.), returning its path
+   */
+  uploadMedia(filePath: string, content: Buffer, message: string, branch?: string): Promise<string>;
+
+  /**
+   * Get media file content (raw binary)
+   */
+  getMediaContent(filePath: string, ref?: string): Promise<Buffer>;
+
+  /**
+   * Read a file by its path from the repository root rather than docsPath (e.g. .gitattributes),
+   * defaulting to the base branch
+   */
+  getRepoFile(repoPath: string, ref?: string): Promise<Buffer>;
+}
+
+/**
+ * Keep only .md files and the directories that contain them (excludes assets folders)
+ */
+export function filterDocsTree(items: DocTreeItem[]): DocTreeItem[] {
+  const mdFiles = items.filter((item) => item.type === 'file' && item.path.endsWith('.md'));
+
+  // Get unique directories that contain .md files
+  const dirsWithMd = new Set<string>();
+  mdFiles.forEach((file) => {
+    const parts = file.path.split('/');
+    // Add all parent directories
+    for (let i = 1; i < parts.length; i++) {
+      dirsWithMd.add(parts.slice(0, i).join('/'));
+    }
+  });
+
+  // Include only .md files and their parent directories
+  return items.filter(
+    (item) =>
+      (item.type === 'file' && item.path.endsWith('.md')) ||
+      (item.type === 'dir' && dirsWithMd.has(item.path))
+  );
+}
+
+/**
+ * Repository paths inside docsPath, relative to it
+ */
+export function filterDocsPaths(paths: string[], docsPath: string): string[] {
+  const prefix = `${docsPath}/`;
+  return paths.filter((p) => p.startsWith(prefix)).map((p) => p.slice(prefix.length));
+}
+
+/**
+ * Strip docsPath from repository paths that are inside it
+ */
+export function relativeToDocs(paths: string[], docsPath: string): string[] {
+  const prefix = `${docsPath}/`;
+  return paths.map((p) => (p.startsWith(prefix) ? p.slice(prefix.length) : p));
+}
+
+/**
+ * Append Co-authored-by trailers (skipped when there are no co-authors)
+ */
+export function appendCoAuthors(message: string, coAuthors: CommitAuthor[]): string {
+  if (coAuthors.length === 0) return message;
+
+  const trailers = coAuthors.map((author) => `Co-authored-by: ${author.name} <${author.email}>`);
+  return `${message.trimEnd()}\n\n${trailers.join('\n')}`;
+}
@@ -0,0 +1,132 @@
+import { createVerify, generateKeyPairSync } from 'node:crypto';
+import { FakeTokenExchange } from '../../test/fake-token-exchange';
+import { InstallationTokenProvider, createAppJwt } from './app-auth';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const MINUTE = 60 * 1000;
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+function decode(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+}
+
+describe('createAppJwt', () => {
+  it('signs an RS256 token issued by the app', () => {
+    const jwt = createAppJwt('12345', privateKey, START);
+    const [header, payload, signature] = jwt.split('.');
+
+    expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+    // Backdated a minute for clock drift, valid for ten
+    expect(decode(payload)).toEqual({
+      iss: '12345',
+      iat: START / 1000 - 60,
+      exp: START / 1000 + 540,
+    });
+
+    const verifier = createVerify('RSA-SHA256');
+    verifier.update(`${header}.${payload}`);
+    expect(verifier.verify(publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+  });
+});
+
+describe('InstallationTokenProvider', () => {
+  let fake: FakeTokenExchange;
+
+  function createProvider(ttlMs = 60 * MINUTE): InstallationTokenProvider {
+    fake = new FakeTokenExchange(ttlMs);
+    return new InstallationTokenProvider({
+      appId: '12345',
+      privateKey,
+      installationId: '678',
+      exchange: fake.exchange,
+      refreshMarginMs: 5 * MINUTE,
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('exchanges an app JWT for the installation token', async () => {
+    const provider = createProvider();
+
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_1');
+    expect(fake.calls).toHaveLength(1);
+    expect(fake.calls[0].installationId).toBe('678');
+    expect(decode(fake.calls[0].appJwt.split('.')[1]).iss).toBe('12345');
+  });
+
+  it('reuses the token until the refresh margin before expiry', async () => {
+    const provider = createProvider();
+    await provider.getToken();
+
+    jest.setSystemTime(START + 54 * MINUTE);
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_1');
+
+    // Within five minutes of expiring
+    jest.setSystemTime(START + 56 * MINUTE);
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_2');
+    expect(fake.calls).toHaveLength(2);
+  });
+
+  it('replaces an expired token', async () => {
+    const provider = createProvider(10 * MINUTE);
+    await provider.getToken();
+
+    jest.setSystemTime(START + 11 * MINUTE);
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_2');
+
+    // The new token is good for another ten minutes from now
+    jest.setSystemTime(START + 15 * MINUTE);
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_2');
+  });
+
+  it('shares one exchange between concurrent callers', async () => {
+    const provider = createProvider();
+
+    const tokens = await Promise.all([
+      provider.getToken(),
+      provider.getToken(),
+      provider.getToken(),
+    ]);
+
+    expect(tokens).toEqual(['ghs_fake_1', 'ghs_fake_1', 'ghs_fake_1']);
+    expect(fake.calls).toHaveLength(1);
+  });
+
+  it('mints a new token after invalidate', async () => {
+    const provider = createProvider();
+    await provider.getToken();
+
+    provider.invalidate();
+
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_2');
+  });
+
+  it('tries again after a failed exchange', async () => {
+    fake = new FakeTokenExchange();
+    let fail = true;
+    const provider = new InstallationTokenProvider({
+      appId: '12345',
+      privateKey,
+      installationId: '678',
+      exchange: async (appJwt, installationId) => {
+        if (fail) throw new Error('exchange failed');
+        return fake.exchange(appJwt, installationId);
+      },
+    });
+
+    await expect(provider.getToken()).rejects.toThrow('exchange failed');
+    fail = false;
+    await expect(provider.getToken()).resolves.toBe('ghs_fake_1');
+  });
+});
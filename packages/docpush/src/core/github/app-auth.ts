@@ -0,0 +1,117 @@
+import { createSign } from 'node:crypto';
+import { Octokit } from '@octokit/rest';
+
+export interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Exchange an app JWT for an installation access token
+ */
+export type TokenExchange = (appJwt: string, installationId: string) => Promise<InstallationToken>;
+
+export interface GitHubAppOptions {
+  appId: string;
+  privateKey: string;
+  installationId: string;
+  exchange?: TokenExchange;
+  // Refresh this long before the token expires (default 5 minutes)
+  refreshMarginMs?: number;
+}
+
+/**
+ * Source of access tokens for GitHubClient when not using a fixed personal token
+ */
+export interface TokenSource {
+  getToken(): Promise<string>;
+  invalidate(): void;
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Create the short-lived RS256 JWT that authenticates as the app itself
+ */
+export function createAppJwt(appId: string, privateKey: string, now = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - 60; // allow for clock drift
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat: issuedAt, exp: issuedAt + 600, iss: appId }));
+
+  const signer = createSign('RSA-SHA256');
+  signer.update(`${header}.${payload}`);
+  const signature = base64url(signer.sign(privateKey));
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Token exchange against the GitHub API
+ */
+export const githubTokenExchange: TokenExchange = async (appJwt, installationId) => {
+  const octokit = new Octokit({ auth: appJwt });
+  const { data } = await octokit.apps.createInstallationAccessToken({
+    installation_id: Number(installationId),
+  });
+
+  return { token: data.token, expiresAt: new Date(data.expires_at) };
+};
+
+/**
+ * Mints installation tokens and caches each one until shortly before it expires
+ */
+export class InstallationTokenProvider implements TokenSource {
+  private options: GitHubAppOptions;
+  private exchange: TokenExchange;
+  private refreshMarginMs: number;
+  private current: InstallationToken | null = null;
+  private pending: Promise<InstallationToken> | null = null;
+
+  constructor(options: GitHubAppOptions) {
+    this.options = options;
+    this.exchange = options.exchange || githubTokenExchange;
+    this.refreshMarginMs = options.refreshMarginMs ?? 5 * 60 * 1000;
+  }
+
+  async getToken(): Promise<string> {
+    if (this.current && this.current.expiresAt.getTime() - this.refreshMarginMs > Date.now()) {
+      return this.current.token;
+    }
+
+    // Concurrent requests share one exchange
+    if (!this.pending) {
+      const appJwt = createAppJwt(this.options.appId, this.options.privateKey);
+      this.pending = this.exchange(appJwt, this.options.installationId).finally(() => {
+        this.pending = null;
+      });
+    }
+
+    this.current = await this.pending;
+    return this.current.token;
+  }
+
+  /**
+   * Drop the cached token (e.g. after a 401) so the next call mints a new one
+   */
+  invalidate(): void {
+    this.current = null;
+  }
+}
+
+// One provider per installation, shared across requests
+const providers = new Map<string, InstallationTokenProvider>();
+
+/**
+ * Get the shared token provider for an app installation
+ */
+export function getInstallationTokenProvider(options: GitHubAppOptions): InstallationTokenProvider {
+  const key = `${options.appId}:${options.installationId}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new InstallationTokenProvider(options);
+    providers.set(key, provider);
+  }
+  return provider;
+}
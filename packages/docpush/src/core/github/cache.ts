@@ -0,0 +1,176 @@
+import type { Octokit } from '@octokit/rest';
+
+/**
+ * Entry of a recursive git tree, as returned by the Git Trees API
+ */
+export interface TreeEntry {
+  path: string;
+  mode: '100644' | '100755' | '040000' | '160000' | '120000';
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  notModified: number;
+  hitRate: number;
+  entries: {
+    etags: number;
+    trees: number;
+    blobs: number;
+  };
+}
+
+// Blobs and trees fetched by SHA are immutable and cached separately
+const IMMUTABLE_URL = /\/git\/(blobs|trees)\//;
+
+// Larger blobs (generated reference pages, diagrams) would push out many small docs
+const MAX_CACHED_BLOB_SIZE = 1024 * 1024;
+
+/**
+ * Minimal LRU map (Map keeps insertion order, so the first key is the oldest)
+ */
+class LruCache<V> {
+  private map = new Map<string, V>();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.map.get(key);
+    if (value !== undefined) {
+      // Move to most recently used
+      this.map.delete(key);
+      this.map.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.map.delete(key);
+    this.map.set(key, value);
+    if (this.map.size > this.maxEntries) {
+      const oldest = this.map.keys().next().value;
+      if (oldest !== undefined) this.map.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+}
+
+/**
+ * Read cache for the GitHub client.
+ * - ETags: GET responses are revalidated with If-None-Match; 304s don't count against the rate limit
+ * - Trees: keyed by commit SHA, so a new push to the branch is a new key
+ * - Blobs: keyed by blob SHA, which never changes for the same content (up to 1 MB each)
+ */
+export class GitHubCache {
+  private etags = new LruCache<{ etag: string; response: unknown }>(1000);
+  private trees = new LruCache<{ entries: TreeEntry[]; truncated: boolean }>(50);
+  private blobs = new LruCache<Buffer>(1000);
+  private counters = { hits: 0, misses: 0, notModified: 0 };
+
+  getTree(commitSha: string): { entries: TreeEntry[]; truncated: boolean } | undefined {
+    return this.count(this.trees.get(commitSha));
+  }
+
+  setTree(commitSha: string, tree: { entries: TreeEntry[]; truncated: boolean }): void {
+    this.trees.set(commitSha, tree);
+  }
+
+  getBlob(sha: string): Buffer | undefined {
+    return this.count(this.blobs.get(sha));
+  }
+
+  setBlob(sha: string, content: Buffer): void {
+    if (content.length > MAX_CACHED_BLOB_SIZE) return;
+    this.blobs.set(sha, content);
+  }
+
+  /**
+   * Add ETag revalidation to every GET request made by this Octokit instance
+   */
+  attach(octokit: Octokit): void {
+    octokit.hook.wrap('request', async (request, options) => {
+      if (options.method !== 'GET') {
+        return request(options);
+      }
+
+      const { url } = octokit.request.endpoint.parse(options);
+      if (IMMUTABLE_URL.test(url)) {
+        return request(options);
+      }
+
+      const cached = this.etags.get(url);
+
+      if (cached) {
+        options.headers = { ...options.headers, 'if-none-match': cached.etag };
+      }
+
+      try {
+        const response = await request(options);
+        const etag = response.headers.etag;
+        if (etag) {
+          this.etags.set(url, { etag, response });
+        }
+        return response;
+      } catch (e: unknown) {
+        const error = e as { status?: number };
+        if (cached && error.status === 304) {
+          this.counters.notModified++;
+          return cached.response as Awaited<ReturnType<typeof request>>;
+        }
+        throw e;
+      }
+    });
+  }
+
+  getStats(): CacheStats {
+    const { hits, misses, notModified } = this.counters;
+    const total = hits + misses;
+    return {
+      hits,
+      misses,
+      notModified,
+      hitRate: total === 0 ? 0 : hits / total,
+      entries: {
+        etags: this.etags.size,
+        trees: this.trees.size,
+        blobs: this.blobs.size,
+      },
+    };
+  }
+
+  /**
+   * Drop ETag entries so the next read of a branch goes back to GitHub (e.g. after a push).
+   * Trees and blobs are keyed by SHA and stay valid.
+   */
+  invalidate(): void {
+    this.etags.clear();
+  }
+
+  clear(): void {
+    this.etags.clear();
+    this.trees.clear();
+    this.blobs.clear();
+    this.counters = { hits: 0, misses: 0, notModified: 0 };
+  }
+
+  private count<T>(value: T | undefined): T | undefined {
+    if (value === undefined) {
+      this.counters.misses++;
+    } else {
+      this.counters.hits++;
+    }
+    return value;
+  }
+}
+
+// Shared across requests - routes create a new client per request
+export const githubCache = new GitHubCache();
@@ -1,60 +1,78 @@
 import { Octokit } from '@octokit/rest';
 import type { DocsConfig } from '../config';
-import { retryWithBackoff } from './retry';
-
-export class GitHubClient {
+import { BranchMovedError } from '../errors';
+import {
+  type BlameLine,
+  type BranchInfo,
+  type BranchStatus,
+  type CommitOptions,
+  type DocTreeItem,
+  type FileChange,
+  type FileHistoryEntry,
+  type GitProvider,
+  type HistoryOptions,
+  type MergeMethod,
+  type OpenPullRequest,
+  type PullRequestOptions,
+  type PullRequestStatus,
+  type SyncOptions,
+  type SyncResult,
+  type SyncStrategy,
+  filterDocsPaths,
+  filterDocsTree,
+  relativeToDocs,
+} from '../git/provider';
+import type { TokenSource } from './app-auth';
+import { type GitHubCache, type TreeEntry, githubCache } from './cache';
+import { rateLimitTracker } from './rate-limit';
+import { GitHubAPIError, retryWithBackoff } from './retry';
+
+// GitHub rejects blobs over 100 MB
+const MAX_BLOB_SIZE = 100 * 1024 * 1024;
+
+export class GitHubClient implements GitProvider {
   private octokit: Octokit;
   private config: DocsConfig['github'];
+  private cache: GitHubCache;
 
-  constructor(token: string, config: DocsConfig['github']) {
-    this.octokit = new Octokit({ auth: token });
+  /**
+   * @param auth Personal access token, or a TokenSource such as a GitHub App installation
+   */
+  constructor(
+    auth: string | TokenSource,
+    config: DocsConfig['github'],
+    cache: GitHubCache = githubCache
+  ) {
+    if (typeof auth === 'string') {
+      this.octokit = new Octokit({ auth });
+    } else {
+      this.octokit = new Octokit();
+      attachTokenSource(this.octokit, auth);
+    }
     this.config = config;
+    this.cache = cache;
+    rateLimitTracker.attach(this.octokit);
+    this.cache.attach(this.octokit);
   }
 
   /**
    * Get documentation file tree
    * Returns only .md files and their parent directories (excludes assets folders)
    */
-  async getDocsTree(): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+  async getDocsTree(ref?: string): Promise<DocTreeItem[]> {
+    await rateLimitTracker.throttleRead();
     return retryWithBackoff(async () => {
-      const { data } = await this.octokit.git.getTree({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        tree_sha: this.config.branch,
-        recursive: '1',
-      });
+      const { entries } = await this.getRepoTree(ref || this.config.branch);
+      const prefix = `${this.config.docsPath}/`;
 
-      const items = data.tree
-        .filter(
-          (item): item is typeof item & { path: string } =>
-            typeof item.path === 'string' && item.path.startsWith(this.config.docsPath)
-        )
+      const items = entries
+        .filter((item) => item.path.startsWith(prefix))
         .map((item) => ({
-          path: item.path.replace(`${this.config.docsPath}/`, ''),
+          path: item.path.slice(prefix.length),
           type: item.type === 'tree' ? ('dir' as const) : ('file' as const),
         }));
 
-      // Filter to only include:
-      // 1. .md files
-      // 2. Directories that contain .md files (not assets or other folders)
-      const mdFiles = items.filter((item) => item.type === 'file' && item.path.endsWith('.md'));
-
-      // Get unique directories that contain .md files
-      const dirsWithMd = new Set<string>();
-      mdFiles.forEach((file) => {
-        const parts = file.path.split('/');
-        // Add all parent directories
-        for (let i = 1; i < parts.length; i++) {
-          dirsWithMd.add(parts.slice(0, i).join('/'));
-        }
-      });
-
-      // Include only .md files and their parent directories
-      return items.filter(
-        (item) =>
-          (item.type === 'file' && item.path.endsWith('.md')) ||
-          (item.type === 'dir' && dirsWithMd.has(item.path))
-      );
+      return filterDocsTree(items);
     });
   }
 
@@ -62,21 +80,10 @@ export class GitHubClient {
    * Get file content from repository
    */
   async getFileContent(filePath: string, ref?: string): Promise<string> {
+    await rateLimitTracker.throttleRead();
     return retryWithBackoff(async () => {
-      const fullPath = `${this.config.docsPath}/${filePath}`;
-
-      const { data } = await this.octokit.repos.getContent({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        path: fullPath,
-        ref: ref || this.config.branch,
-      });
-
-      if ('content' in data) {
-        return Buffer.from(data.content, 'base64').toString('utf-8');
-      }
-
-      throw new Error('Path is not a file');
+      const content = await this.readFile(filePath, ref);
+      return content.toString('utf-8');
     });
   }
 
@@ -113,64 +120,222 @@ export class GitHubClient {
     branchName: string,
     filePath: string,
     content: string,
-    message: string
+    message: string,
+    options: CommitOptions = {}
   ): Promise<void> {
-    const fullPath = `${this.config.docsPath}/${filePath}`;
+    await this.commitFiles(branchName, [{ path: filePath, content }], message, options);
+  }
+
+  /**
+   * Commit several files as one commit using the Git Data API
+   * (blobs -> tree -> commit -> ref), so concurrent saves cannot race on blob SHAs
+   */
+  async commitFiles(
+    branchName: string,
+    changes: FileChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    const { owner, repo } = this.config;
 
-    // Try to get existing file SHA
-    let sha: string | undefined;
+    const commitSha = await retryWithBackoff(async () => {
+      const { data: ref } = await this.octokit.git.getRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`,
+      });
+      const { data: parent } = await this.octokit.git.getCommit({
+        owner,
+        repo,
+        commit_sha: ref.object.sha,
+      });
+
+      const tree = await this.treeEntries(changes);
+
+      const { data: newTree } = await this.octokit.git.createTree({
+        owner,
+        repo,
+        base_tree: parent.tree.sha,
+        tree,
+      });
+      const { data: commit } = await this.octokit.git.createCommit({
+        owner,
+        repo,
+        message,
+        tree: newTree.sha,
+        parents: [ref.object.sha],
+        // Committer stays the token identity
+        author: options.author,
+      });
+
+      return commit.sha;
+    });
+
+    // Non-forced update is rejected unless it fast-forwards from the parent we built on
     try {
-      const { data } = await this.octokit.repos.getContent({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        path: fullPath,
-        ref: branchName,
+      await this.octokit.git.updateRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`,
+        sha: commitSha,
+        force: false,
       });
-      if ('sha' in data) sha = data.sha;
     } catch (e: unknown) {
       const error = e as { status?: number };
-      if (error.status !== 404) throw e;
-      // File doesn't exist yet, that's ok
+      if (error.status === 422) {
+        throw new BranchMovedError(branchName);
+      }
+      throw e;
     }
 
-    // Create or update file
-    await this.octokit.repos.createOrUpdateFileContents({
-      owner: this.config.owner,
-      repo: this.config.repo,
-      path: fullPath,
-      message,
-      content: Buffer.from(content).toString('base64'),
-      branch: branchName,
-      sha,
-    });
+    return commitSha;
   }
 
   /**
    * Create pull request
    */
-  async createPullRequest(branchName: string, title: string, body: string): Promise<number> {
-    const { data } = await this.octokit.pulls.create({
-      owner: this.config.owner,
-      repo: this.config.repo,
-      head: branchName,
-      base: this.config.branch,
-      title,
-      body,
-    });
+  async createPullRequest(
+    branchName: string,
+    title: string,
+    body: string,
+    options: PullRequestOptions = {}
+  ): Promise<number> {
+    const { owner, repo } = this.config;
+    return retryWithBackoff(async () => {
+      const { data } = await this.octokit.pulls.create({
+        owner,
+        repo,
+        head: branchName,
+        base: this.config.branch,
+        title,
+        body,
+      });
 
-    return data.number;
+      // Labels live on the PR's issue
+      if (options.labels?.length) {
+        await this.octokit.issues.addLabels({
+          owner,
+          repo,
+          issue_number: data.number,
+          labels: options.labels,
+        });
+      }
+      if (options.reviewers?.length) {
+        await this.octokit.pulls.requestReviewers({
+          owner,
+          repo,
+          pull_number: data.number,
+          reviewers: options.reviewers,
+        });
+      }
+
+      return data.number;
+    });
   }
 
   /**
    * Merge pull request
    */
-  async mergePullRequest(prNumber: number): Promise<void> {
-    await this.octokit.pulls.merge({
+  async mergePullRequest(prNumber: number, method: MergeMethod = 'squash'): Promise<void> {
+    await retryWithBackoff(() =>
+      this.octokit.pulls.merge({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        pull_number: prNumber,
+        merge_method: method,
+      })
+    );
+  }
+
+  /**
+   * Get pull request state
+   */
+  async getPullRequest(prNumber: number): Promise<PullRequestStatus> {
+    const { data } = await this.octokit.pulls.get({
       owner: this.config.owner,
       repo: this.config.repo,
       pull_number: prNumber,
-      merge_method: 'squash',
     });
+
+    return {
+      number: data.number,
+      state: data.merged ? 'merged' : data.state === 'open' ? 'open' : 'closed',
+      url: data.html_url,
+    };
+  }
+
+  /**
+   * List open pull requests into the base branch with their changed docs
+   */
+  async listOpenPullRequests(): Promise<OpenPullRequest[]> {
+    const { owner, repo } = this.config;
+    const fullName = `${owner}/${repo}`.toLowerCase();
+
+    const pulls = await this.octokit.paginate(this.octokit.pulls.list, {
+      owner,
+      repo,
+      state: 'open',
+      base: this.config.branch,
+      per_page: 100,
+    });
+
+    const result: OpenPullRequest[] = [];
+    // One at a time to go easy on the rate limit
+    for (const pr of pulls) {
+      if (pr.head.repo?.full_name.toLowerCase() !== fullName) continue;
+
+      const files = await this.octokit.paginate(this.octokit.pulls.listFiles, {
+        owner,
+        repo,
+        pull_number: pr.number,
+        per_page: 100,
+      });
+
+      result.push({
+        number: pr.number,
+        title: pr.title,
+        branch: pr.head.ref,
+        url: pr.html_url,
+        author: pr.user?.login,
+        files: filterDocsPaths(
+          files.map((file) => file.filename),
+          this.config.docsPath
+        ),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * List branches whose name starts with prefix
+   */
+  async listBranches(prefix: string): Promise<BranchInfo[]> {
+    const { owner, repo } = this.config;
+
+    const refs = await this.octokit.paginate(this.octokit.git.listMatchingRefs, {
+      owner,
+      repo,
+      ref: `heads/${prefix}`,
+      per_page: 100,
+    });
+
+    const branches: BranchInfo[] = [];
+    // Refs don't carry dates; one commit lookup per branch, one at a time
+    for (const ref of refs) {
+      const { data: commit } = await this.octokit.git.getCommit({
+        owner,
+        repo,
+        commit_sha: ref.object.sha,
+      });
+      branches.push({
+        name: ref.ref.replace(/^refs\/heads\//, ''),
+        sha: ref.object.sha,
+        lastCommitAt: commit.committer.date,
+      });
+    }
+
+    return branches;
   }
 
   /**
@@ -187,21 +352,20 @@ export class GitHubClient {
   /**
    * Get commit history for file
    */
-  async getFileHistory(filePath: string): Promise<
-    Array<{
-      sha: string;
-      message: string;
-      date: string;
-      author: string;
-    }>
-  > {
+  async getFileHistory(
+    filePath: string,
+    { ref, page = 1, perPage = 50 }: HistoryOptions = {}
+  ): Promise<FileHistoryEntry[]> {
+    await rateLimitTracker.throttleRead();
     const fullPath = `${this.config.docsPath}/${filePath}`;
 
     const { data } = await this.octokit.repos.listCommits({
       owner: this.config.owner,
       repo: this.config.repo,
+      sha: ref || this.config.branch,
       path: fullPath,
-      per_page: 50,
+      page,
+      per_page: perPage,
     });
 
     return data.map((commit) => ({
@@ -213,44 +377,200 @@ export class GitHubClient {
   }
 
   /**
-   * Upload media file (image, etc.) to repository
+   * Get per-line blame for file (blame is only exposed through the GraphQL API)
    */
-  async uploadMedia(
-    filePath: string,
-    content: Buffer,
-    message: string,
-    branch?: string
-  ): Promise<string> {
+  async getFileBlame(filePath: string, ref?: string): Promise<BlameLine[]> {
+    await rateLimitTracker.throttleRead('graphql');
     const fullPath = `${this.config.docsPath}/${filePath}`;
-    const targetBranch = branch || this.config.branch;
 
-    // Try to get existing file SHA
-    let sha: string | undefined;
+    const [result, content] = await Promise.all([
+      this.octokit.graphql<GraphQLBlame>(
+        `query ($owner: String!, $repo: String!, $ref: String!, $path: String!) {
+          repository(owner: $owner, name: $repo) {
+            object(expression: $ref) {
+              ... on Commit {
+                blame(path: $path) {
+                  ranges {
+                    startingLine
+                    endingLine
+                    commit { oid message authoredDate author { name } }
+                  }
+                }
+              }
+            }
+          }
+        }`,
+        {
+          owner: this.config.owner,
+          repo: this.config.repo,
+          ref: ref || this.config.branch,
+          path: fullPath,
+        }
+      ),
+      this.readFile(filePath, ref),
+    ]);
+
+    const ranges = result.repository.object?.blame?.ranges;
+    if (!ranges) {
+      throw new GitHubAPIError(`Ref not found: ${ref || this.config.branch}`, 404);
+    }
+
+    const lines = content.toString('utf-8').replace(/\r\n/g, '\n').split('\n');
+
+    return ranges.flatMap((range) =>
+      lines.slice(range.startingLine - 1, range.endingLine).map((text, i) => ({
+        line: range.startingLine + i,
+        content: text,
+        sha: range.commit.oid,
+        author: range.commit.author?.name || 'Unknown',
+        date: range.commit.authoredDate,
+        message: range.commit.message,
+      }))
+    );
+  }
+
+  /**
+   * Compare branch against the base branch.
+   * GitHub has no conflict check without a PR, so files changed on both sides since
+   * the merge base are reported as conflicting.
+   */
+  async getBranchStatus(branchName: string): Promise<BranchStatus> {
+    return retryWithBackoff(async () => {
+      const draft = await this.compare(this.config.branch, branchName);
+      const baseSha = draft.base_commit.sha;
+      const mergeBaseSha = draft.merge_base_commit.sha;
+
+      let conflicts: string[] = [];
+      if (draft.behind_by > 0) {
+        const base = await this.compare(mergeBaseSha, baseSha);
+        const changedOnBase = new Set(changedPaths(base.files));
+        conflicts = changedPaths(draft.files).filter((p) => changedOnBase.has(p));
+      }
+
+      const conflictingFiles = relativeToDocs(conflicts, this.config.docsPath);
+      return {
+        baseSha,
+        mergeBaseSha,
+        aheadBy: draft.ahead_by,
+        behindBy: draft.behind_by,
+        conflictingFiles,
+        hasConflicts: conflictingFiles.length > 0,
+      };
+    });
+  }
+
+  /**
+   * Bring the base branch into branch. A plain merge uses the merges API; otherwise the
+   * branch's changes (and any resolutions) are written onto the base tree, as a merge
+   * commit or, for rebase, a single commit on top of the base head.
+   */
+  async syncBranch(
+    branchName: string,
+    strategy: SyncStrategy,
+    message: string,
+    options: SyncOptions = {}
+  ): Promise<SyncResult> {
+    const { owner, repo } = this.config;
+    const status = await this.getBranchStatus(branchName);
+    const { baseSha } = status;
+
+    if (status.behindBy === 0) {
+      return { status: 'up-to-date', baseSha, conflictingFiles: [] };
+    }
+
+    const resolutions = options.resolutions || [];
+    const resolved = new Set(resolutions.map((change) => change.path));
+    const conflicts = status.conflictingFiles.filter((file) => !resolved.has(file));
+
+    if (strategy === 'merge' && resolutions.length === 0) {
+      try {
+        const response = await this.octokit.repos.merge({
+          owner,
+          repo,
+          base: branchName,
+          head: baseSha,
+          commit_message: message,
+        });
+        // 204 means there was nothing to merge
+        if ((response.status as number) === 204) {
+          return { status: 'up-to-date', baseSha, conflictingFiles: [] };
+        }
+        return { status: 'synced', sha: response.data.sha, baseSha, conflictingFiles: [] };
+      } catch (e: unknown) {
+        const error = e as { status?: number };
+        if (error.status === 409) {
+          return { status: 'conflict', baseSha, conflictingFiles: conflicts };
+        }
+        throw e;
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return { status: 'conflict', baseSha, conflictingFiles: conflicts };
+    }
+
+    const { data: ref } = await this.octokit.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${branchName}`,
+    });
+    const headSha = ref.object.sha;
+    const draft = await this.compare(baseSha, headSha);
+    const { data: base } = await this.octokit.git.getCommit({ owner, repo, commit_sha: baseSha });
+
+    // Replay the branch's version of every file it changed onto the base tree. The changes
+    // come from diffing the merge base and head trees, since the compare API lists at most
+    // 300 files and carries no file modes.
+    const resolvedPaths = new Set(resolutions.map((c) => `${this.config.docsPath}/${c.path}`));
+    const replayed = (await this.changedEntries(draft.merge_base_commit.sha, headSha)).filter(
+      (entry) => !resolvedPaths.has(entry.path)
+    );
+
+    const { data: newTree } = await this.octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: base.tree.sha,
+      tree: [...replayed, ...(await this.treeEntries(resolutions))],
+    });
+    const { data: commit } = await this.octokit.git.createCommit({
+      owner,
+      repo,
+      message,
+      tree: newTree.sha,
+      parents: strategy === 'merge' ? [headSha, baseSha] : [baseSha],
+      author: options.author,
+    });
+
+    // A merge commit fast-forwards the branch; a rebase rewrites it
     try {
-      const { data } = await this.octokit.repos.getContent({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        path: fullPath,
-        ref: targetBranch,
+      await this.octokit.git.updateRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`,
+        sha: commit.sha,
+        force: strategy === 'rebase',
       });
-      if ('sha' in data) sha = data.sha;
     } catch (e: unknown) {
       const error = e as { status?: number };
-      if (error.status !== 404) throw e;
-      // File doesn't exist yet, that's ok
+      if (error.status === 422) {
+        throw new BranchMovedError(branchName);
+      }
+      throw e;
     }
 
-    // Create or update file
-    await this.octokit.repos.createOrUpdateFileContents({
-      owner: this.config.owner,
-      repo: this.config.repo,
-      path: fullPath,
-      message,
-      content: content.toString('base64'),
-      branch: targetBranch,
-      sha,
-    });
+    return { status: 'synced', sha: commit.sha, baseSha, conflictingFiles: [] };
+  }
 
+  /**
+   * Upload media file (image, etc.) to repository
+   */
+  async uploadMedia(
+    filePath: string,
+    content: Buffer,
+    message: string,
+    branch?: string
+  ): Promise<string> {
+    await this.commitFiles(branch || this.config.branch, [{ path: filePath, content }], message);
     return filePath;
   }
 
@@ -258,8 +578,62 @@ export class GitHubClient {
    * Get media file content (raw binary)
    */
   async getMediaContent(filePath: string, ref?: string): Promise<Buffer> {
-    const fullPath = `${this.config.docsPath}/${filePath}`;
+    await rateLimitTracker.throttleRead();
+    return retryWithBackoff(() => this.readFile(filePath, ref));
+  }
+
+  async getRepoFile(repoPath: string, ref?: string): Promise<Buffer> {
+    return retryWithBackoff(() => this.readPath(repoPath, ref));
+  }
 
+  /**
+   * Read a file under docsPath
+   */
+  private async readFile(filePath: string, ref?: string): Promise<Buffer> {
+    return this.readPath(`${this.config.docsPath}/${filePath}`, ref);
+  }
+
+  /**
+   * Read a file by repository path: ref -> commit SHA -> cached tree -> blob SHA -> cached blob
+   */
+  private async readPath(fullPath: string, ref?: string): Promise<Buffer> {
+    const tree = await this.getRepoTree(ref || this.config.branch);
+    const entry = tree.entries.find((item) => item.path === fullPath);
+
+    if (!entry) {
+      // Truncated trees (very large repos) may be missing the path; ask the Contents API
+      if (tree.truncated) {
+        return this.readContents(fullPath, ref);
+      }
+      throw new GitHubAPIError(`Not Found: ${fullPath}`, 404);
+    }
+
+    if (entry.type !== 'blob') {
+      throw new Error('Path is not a file');
+    }
+
+    return this.readBlob(entry.sha);
+  }
+
+  /**
+   * Read a blob by SHA. Unlike the Contents API, the blobs API returns files up to 100 MB.
+   */
+  private async readBlob(sha: string): Promise<Buffer> {
+    const cached = this.cache.getBlob(sha);
+    if (cached) return cached;
+
+    const { data } = await this.octokit.git.getBlob({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      file_sha: sha,
+    });
+    const content = Buffer.from(data.content, 'base64');
+    this.cache.setBlob(sha, content);
+
+    return content;
+  }
+
+  private async readContents(fullPath: string, ref?: string): Promise<Buffer> {
     const { data } = await this.octokit.repos.getContent({
       owner: this.config.owner,
       repo: this.config.repo,
@@ -268,9 +642,190 @@ export class GitHubClient {
     });
 
     if ('content' in data) {
+      // Files over 1 MB come back with empty content; read them by SHA instead
+      if (!data.content && data.size > 0) {
+        return this.readBlob(data.sha);
+      }
       return Buffer.from(data.content, 'base64');
     }
 
     throw new Error('Path is not a file');
   }
+
+  /**
+   * Get the recursive repository tree at ref, cached by commit SHA
+   */
+  private async getRepoTree(ref: string): Promise<{ entries: TreeEntry[]; truncated: boolean }> {
+    const commitSha = await this.resolveCommitSha(ref);
+
+    const cached = this.cache.getTree(commitSha);
+    if (cached) return cached;
+
+    const { data } = await this.octokit.git.getTree({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      tree_sha: commitSha,
+      recursive: '1',
+    });
+
+    const tree = {
+      entries: data.tree
+        .filter(
+          (item): item is typeof item & { path: string; sha: string } =>
+            typeof item.path === 'string' && typeof item.sha === 'string'
+        )
+        .map((item) => ({
+          path: item.path,
+          mode: item.mode as TreeEntry['mode'],
+          type: item.type as TreeEntry['type'],
+          sha: item.sha,
+        })),
+      truncated: data.truncated,
+    };
+    this.cache.setTree(commitSha, tree);
+
+    return tree;
+  }
+
+  /**
+   * Tree entries for file changes under docsPath, creating blobs for new content
+   */
+  private async treeEntries(changes: FileChange[]) {
+    return Promise.all(
+      changes.map(async (change) => {
+        const path = `${this.config.docsPath}/${change.path}`;
+
+        // A null SHA removes the path from the tree
+        if (change.content === null) {
+          return { path, mode: '100644' as const, type: 'blob' as const, sha: null };
+        }
+
+        const content = Buffer.from(change.content);
+        if (content.length > MAX_BLOB_SIZE) {
+          throw new GitHubAPIError(`${path} is larger than GitHub's 100 MB file limit`, 413);
+        }
+
+        // Blobs are created from base64, so binary and large files go through unchanged
+        const { data: blob } = await this.octokit.git.createBlob({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          content: content.toString('base64'),
+          encoding: 'base64',
+        });
+        return { path, mode: '100644' as const, type: 'blob' as const, sha: blob.sha };
+      })
+    );
+  }
+
+  /**
+   * Tree entries that turn the tree at from into the tree at to: changed or added files and
+   * submodules with their modes, and null SHAs for removed paths
+   */
+  private async changedEntries(from: string, to: string) {
+    const [before, after] = await Promise.all([this.getRepoTree(from), this.getRepoTree(to)]);
+    if (before.truncated || after.truncated) {
+      throw new GitHubAPIError('Repository tree is too large to sync the branch', 413);
+    }
+
+    const files = (tree: { entries: TreeEntry[] }) =>
+      new Map(tree.entries.filter((e) => e.type !== 'tree').map((e) => [e.path, e]));
+    const beforeFiles = files(before);
+    const afterFiles = files(after);
+
+    const changed = [...afterFiles.values()]
+      .filter((e) => {
+        const old = beforeFiles.get(e.path);
+        return !old || old.sha !== e.sha || old.mode !== e.mode || old.type !== e.type;
+      })
+      .map(({ path, mode, type, sha }) => ({ path, mode, type, sha: sha as string | null }));
+    const removed = [...beforeFiles.values()]
+      .filter((e) => !afterFiles.has(e.path))
+      .map(({ path, mode, type }) => ({ path, mode, type, sha: null }));
+
+    return [...changed, ...removed];
+  }
+
+  /**
+   * Three-dot comparison: commits and files on head since its merge base with base
+   */
+  private async compare(base: string, head: string) {
+    const { data } = await this.octokit.repos.compareCommits({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      base,
+      head,
+    });
+
+    return data;
+  }
+
+  /**
+   * Resolve a branch, tag or SHA to its commit SHA.
+   * Revalidated by ETag, so an unchanged branch costs a 304 that is not rate-limited.
+   */
+  private async resolveCommitSha(ref: string): Promise<string> {
+    const { data } = await this.octokit.request('GET /repos/{owner}/{repo}/commits/{ref}', {
+      owner: this.config.owner,
+      repo: this.config.repo,
+      ref,
+      headers: { accept: 'application/vnd.github.sha' },
+    });
+
+    return String(data).trim();
+  }
+}
+
+interface GraphQLBlame {
+  repository: {
+    object: {
+      blame?: {
+        ranges: Array<{
+          startingLine: number;
+          endingLine: number;
+          commit: {
+            oid: string;
+            message: string;
+            authoredDate: string;
+            author: { name: string | null } | null;
+          };
+        }>;
+      };
+    } | null;
+  };
+}
+
+/**
+ * Paths touched by a comparison, including the old side of renames
+ */
+function changedPaths(
+  files: Array<{ filename: string; previous_filename?: string }> = []
+): string[] {
+  return files.flatMap((file) =>
+    file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+  );
+}
+
+/**
+ * Authenticate every request with a fresh token from the source.
+ * Runs per request, so retries inside retryWithBackoff pick up a refreshed token.
+ */
+function attachTokenSource(octokit: Octokit, source: TokenSource): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    const send = async () => {
+      options.headers = { ...options.headers, authorization: `token ${await source.getToken()}` };
+      return request(options);
+    };
+
+    try {
+      return await send();
+    } catch (e: unknown) {
+      const error = e as { status?: number };
+      // Token revoked or expired early - mint a new one and try once more
+      if (error.status === 401) {
+        source.invalidate();
+        return send();
+      }
+      throw e;
+    }
+  });
 }
@@ -1,3 +1,19 @@
 export { GitHubClient } from './client';
+export { GitHubCache, githubCache } from './cache';
+export {
+  InstallationTokenProvider,
+  createAppJwt,
+  getInstallationTokenProvider,
+  githubTokenExchange,
+} from './app-auth';
+export type {
+  GitHubAppOptions,
+  InstallationToken,
+  TokenExchange,
+  TokenSource,
+} from './app-auth';
+export type { CacheStats, TreeEntry } from './cache';
+export { RateLimitTracker, rateLimitTracker } from './rate-limit';
+export type { RateLimitBudget, RateLimitOptions, RateLimitResource } from './rate-limit';
 export { retryWithBackoff, GitHubAPIError } from './retry';
-export type { RetryOptions } from './retry';
+export type { RetryEvent, RetryOptions } from './retry';
@@ -0,0 +1,178 @@
+import type { Octokit } from '@octokit/rest';
+import { GitHubAPIError } from './retry';
+
+/**
+ * Remaining budget for one rate limit resource (core, graphql, search, ...)
+ */
+export interface RateLimitResource {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+}
+
+export interface RateLimitBudget {
+  resources: Record<string, RateLimitResource>;
+  // Set while every request waits out a Retry-After (secondary rate limit)
+  pausedUntil: string | null;
+  // Reads are spaced out below this fraction of the limit, and refused at the reserve
+  lowWatermark: number;
+  reserve: number;
+  counters: {
+    retryAfter: number;
+    rateLimited: number;
+    throttledReads: number;
+    rejectedReads: number;
+    retries: number;
+  };
+}
+
+export interface RateLimitOptions {
+  // Requests kept back for writes (commits, merges, approvals)
+  reserve?: number;
+  // Fraction of the limit below which reads are spread out until the reset
+  lowWatermark?: number;
+  // Longest a single read is delayed
+  maxReadDelay?: number;
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Tracks the GitHub API budget from the x-ratelimit-* headers of every response, and
+ * Retry-After pauses from secondary rate limits, across all clients in the process.
+ */
+export class RateLimitTracker {
+  private resources = new Map<string, RateLimitResource & { resetMs: number }>();
+  private pausedUntil = 0;
+  private counters = {
+    retryAfter: 0,
+    rateLimited: 0,
+    throttledReads: 0,
+    rejectedReads: 0,
+    retries: 0,
+  };
+  private reserve: number;
+  private lowWatermark: number;
+  private maxReadDelay: number;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.reserve = options.reserve ?? 100;
+    this.lowWatermark = options.lowWatermark ?? 0.1;
+    this.maxReadDelay = options.maxReadDelay ?? 5000;
+  }
+
+  /**
+   * Record budget headers from every response (and error response) of this Octokit instance,
+   * and hold requests while a Retry-After pause is in effect.
+   * Attach before the cache so 304s revalidated by the cache report fresh headers.
+   */
+  attach(octokit: Octokit): void {
+    octokit.hook.wrap('request', async (request, options) => {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) await sleep(pause);
+
+      try {
+        const response = await request(options);
+        this.update(response.headers);
+        return response;
+      } catch (e: unknown) {
+        const error = e as { response?: { headers?: Headers } };
+        if (error.response?.headers) this.update(error.response.headers);
+        throw e;
+      }
+    });
+  }
+
+  update(headers: Headers): void {
+    const remaining = headers['x-ratelimit-remaining'];
+    if (remaining === undefined) return;
+
+    const resource = String(headers['x-ratelimit-resource'] || 'core');
+    const resetMs = Number(headers['x-ratelimit-reset']) * 1000;
+    this.resources.set(resource, {
+      limit: Number(headers['x-ratelimit-limit']),
+      remaining: Number(remaining),
+      used: Number(headers['x-ratelimit-used'] || 0),
+      resetAt: new Date(resetMs).toISOString(),
+      resetMs,
+    });
+  }
+
+  /**
+   * Pause every request for a Retry-After (seconds) from a secondary rate limit
+   */
+  pause(seconds: number): void {
+    this.counters.retryAfter++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + seconds * 1000);
+  }
+
+  /**
+   * Count a retry, or a wait for the primary limit to reset
+   */
+  record(event: 'retry' | 'rateLimited'): void {
+    if (event === 'retry') this.counters.retries++;
+    else this.counters.rateLimited++;
+  }
+
+  /**
+   * Call before a non-critical read. Below the low watermark, reads are spaced out so the
+   * rest of the budget lasts until the reset; at the reserve they are refused (503) so
+   * writes still have requests left.
+   */
+  async throttleRead(resource = 'core'): Promise<void> {
+    const budget = this.resources.get(resource);
+    if (!budget || budget.resetMs <= Date.now()) return;
+
+    const untilReset = budget.resetMs - Date.now();
+    const spare = budget.remaining - this.reserve;
+
+    if (spare <= 0) {
+      this.counters.rejectedReads++;
+      throw new GitHubAPIError(
+        'GitHub API budget is reserved for writes until the rate limit resets',
+        503,
+        untilReset
+      );
+    }
+
+    if (budget.remaining < budget.limit * this.lowWatermark) {
+      this.counters.throttledReads++;
+      await sleep(Math.min(this.maxReadDelay, untilReset / spare));
+    }
+  }
+
+  getBudget(): RateLimitBudget {
+    const resources: Record<string, RateLimitResource> = {};
+    for (const [name, { limit, remaining, used, resetAt }] of this.resources) {
+      resources[name] = { limit, remaining, used, resetAt };
+    }
+
+    return {
+      resources,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      lowWatermark: this.lowWatermark,
+      reserve: this.reserve,
+      counters: { ...this.counters },
+    };
+  }
+
+  clear(): void {
+    this.resources.clear();
+    this.pausedUntil = 0;
+    this.counters = {
+      retryAfter: 0,
+      rateLimited: 0,
+      throttledReads: 0,
+      rejectedReads: 0,
+      retries: 0,
+    };
+  }
+}
+
+// Shared by all GitHub clients in the process (they draw on the same budget)
+export const rateLimitTracker = new RateLimitTracker();
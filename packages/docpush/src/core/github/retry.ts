@@ -1,9 +1,23 @@
+import { rateLimitTracker } from './rate-limit';
+
 export interface RetryOptions {
   maxRetries?: number;
   baseDelay?: number;
   maxDelay?: number;
+  // Called before each wait, instead of logging
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RetryEvent {
+  attempt: number;
+  delay: number;
+  reason: 'rate-limit' | 'retry-after' | 'error';
+  error: Error;
 }
 
+// Longer waits are surfaced as errors rather than holding the request open
+const MAX_RATE_LIMIT_WAIT = 60000;
+
 export class GitHubAPIError extends Error {
   constructor(
     message: string,
@@ -23,13 +37,15 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Retry a GitHub API call with exponential backoff
+ * Retry a GitHub API call with exponential backoff.
+ * Rate limits wait for the reset (primary) or the Retry-After (secondary) when that is under a
+ * minute; the Retry-After also pauses other requests through the shared rate limit tracker.
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
 ): Promise<T> {
-  const { maxRetries = 3, baseDelay = 1000, maxDelay = 10000 } = options;
+  const { maxRetries = 3, baseDelay = 1000, maxDelay = 10000, onRetry } = options;
 
   let lastError: Error | null = null;
 
@@ -43,22 +59,45 @@ export async function retryWithBackoff<T>(
         response?: { headers?: Record<string, string> };
       };
       lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Don't retry client errors (4xx) except 429 (rate limit)
-      if (err.status && err.status >= 400 && err.status < 500 && err.status !== 429) {
-        throw new GitHubAPIError(err.message || 'GitHub API client error', err.status);
-      }
+      const headers = err.response?.headers || {};
 
       // Handle rate limiting (403 or 429)
       if (err.status === 403 || err.status === 429) {
-        const resetTime = err.response?.headers?.['x-ratelimit-reset'];
-        const remaining = err.response?.headers?.['x-ratelimit-remaining'];
+        // Secondary rate limits say how long to back off
+        const retryAfter = headers['retry-after'];
+        if (retryAfter !== undefined) {
+          const waitTime = Number(retryAfter) * 1000;
+          rateLimitTracker.pause(Number(retryAfter));
 
-        if (remaining === '0' && resetTime) {
+          if (waitTime < MAX_RATE_LIMIT_WAIT && attempt < maxRetries - 1) {
+            onRetry?.({
+              attempt: attempt + 1,
+              delay: waitTime,
+              reason: 'retry-after',
+              error: lastError,
+            });
+            await sleep(waitTime);
+            continue;
+          }
+          throw new GitHubAPIError(
+            'GitHub API secondary rate limit exceeded',
+            err.status,
+            waitTime
+          );
+        }
+
+        const resetTime = headers['x-ratelimit-reset'];
+        if (headers['x-ratelimit-remaining'] === '0' && resetTime) {
           const waitTime = Number.parseInt(resetTime) * 1000 - Date.now();
+          rateLimitTracker.record('rateLimited');
 
-          if (waitTime > 0 && waitTime < 60000) {
-            console.log(`Rate limited. Waiting ${Math.ceil(waitTime / 1000)}s...`);
+          if (waitTime > 0 && waitTime < MAX_RATE_LIMIT_WAIT) {
+            onRetry?.({
+              attempt: attempt + 1,
+              delay: waitTime,
+              reason: 'rate-limit',
+              error: lastError,
+            });
             await sleep(waitTime);
             continue;
           }
@@ -66,10 +105,16 @@ export async function retryWithBackoff<T>(
         }
       }
 
+      // Don't retry client errors (4xx) except 429 (rate limit)
+      if (err.status && err.status >= 400 && err.status < 500 && err.status !== 429) {
+        throw new GitHubAPIError(err.message || 'GitHub API client error', err.status);
+      }
+
       // Retry on 5xx errors or network errors
       if (attempt < maxRetries - 1) {
         const delay = Math.min(baseDelay * 2 ** attempt, maxDelay);
-        console.log(`Attempt ${attempt + 1} failed. Retrying in ${delay}ms...`);
+        rateLimitTracker.record('retry');
+        onRetry?.({ attempt: attempt + 1, delay, reason: 'error', error: lastError });
         await sleep(delay);
       }
     }
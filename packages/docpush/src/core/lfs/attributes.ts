@@ -0,0 +1,104 @@
+import path from 'node:path';
+import type { GitProvider } from '../git/provider';
+
+/**
+ * .gitattributes line that sets or unsets the LFS filter for a pattern
+ */
+export interface LfsRule {
+  pattern: string;
+  lfs: boolean;
+}
+
+/**
+ * Rules from a .gitattributes file that mention the filter attribute
+ */
+export function parseAttributes(content: string): LfsRule[] {
+  const rules: LfsRule[] = [];
+
+  for (const line of content.split('\n')) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    // Comments, blank lines and quoted patterns (not supported)
+    if (!pattern || pattern.startsWith('#') || pattern.startsWith('"')) continue;
+
+    for (const attribute of attributes) {
+      if (attribute === 'filter=lfs') {
+        rules.push({ pattern, lfs: true });
+      } else if (
+        attribute === '-filter' ||
+        attribute === '!filter' ||
+        attribute.startsWith('filter=')
+      ) {
+        rules.push({ pattern, lfs: false });
+      }
+    }
+  }
+
+  return rules;
+}
+
+function globToRegExp(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Match a .gitattributes pattern against a path relative to the file's folder. As in git,
+ * a pattern without a slash matches the file name at any depth.
+ */
+export function matchesPattern(pattern: string, filePath: string): boolean {
+  if (!pattern.includes('/')) {
+    return new RegExp(`^${globToRegExp(pattern)}$`).test(path.posix.basename(filePath));
+  }
+  return new RegExp(`^${globToRegExp(pattern.replace(/^\//, ''))}$`).test(filePath);
+}
+
+/**
+ * Whether a repository path is stored in LFS, per the .gitattributes files in its folder and
+ * every folder above it (deeper files and later lines win)
+ */
+export async function isLfsTracked(
+  git: GitProvider,
+  repoPath: string,
+  ref?: string
+): Promise<boolean> {
+  const parts = repoPath.split('/');
+  let tracked = false;
+
+  for (let depth = 0; depth < parts.length; depth++) {
+    const dir = parts.slice(0, depth).join('/');
+
+    let content: string;
+    try {
+      content = (
+        await git.getRepoFile(dir ? `${dir}/.gitattributes` : '.gitattributes', ref)
+      ).toString('utf-8');
+    } catch (e: unknown) {
+      const error = e as { status?: number };
+      if (error.status === 404) continue;
+      throw e;
+    }
+
+    const relative = parts.slice(depth).join('/');
+    for (const rule of parseAttributes(content)) {
+      if (matchesPattern(rule.pattern, relative)) tracked = rule.lfs;
+    }
+  }
+
+  return tracked;
+}
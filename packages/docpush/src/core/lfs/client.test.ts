@@ -0,0 +1,84 @@
+import { LocalLfsServer } from '../../test/local-lfs-server';
+import type { TokenSource } from '../github/app-auth';
+import { LfsClient, LfsError } from './client';
+import { createPointer } from './pointer';
+
+describe('LfsClient', () => {
+  let server: LocalLfsServer;
+  let url: string;
+  let close: () => Promise<void>;
+
+  beforeEach(async () => {
+    server = new LocalLfsServer('secret');
+    ({ url, close } = await server.listen());
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  it('uploads an object and downloads it again', async () => {
+    const client = new LfsClient(url, 'secret');
+    const content = Buffer.from('not really a png');
+
+    const pointer = await client.upload(content);
+
+    expect(pointer).toEqual(createPointer(content));
+    expect(server.objects.get(pointer.oid)).toEqual(content);
+    await expect(client.download(pointer)).resolves.toEqual(content);
+  });
+
+  it('skips the transfer for an object the server already has', async () => {
+    const client = new LfsClient(url, 'secret');
+    const content = Buffer.from('stored once');
+    const pointer = await client.upload(content);
+
+    await expect(client.upload(content)).resolves.toEqual(pointer);
+    expect(server.objects.size).toBe(1);
+  });
+
+  it('reports a missing object as an LfsError', async () => {
+    const client = new LfsClient(url, 'secret');
+    const pointer = createPointer(Buffer.from('never uploaded'));
+
+    await expect(client.download(pointer)).rejects.toEqual(
+      new LfsError('Object does not exist', 404)
+    );
+  });
+
+  it('fails without the right token', async () => {
+    const client = new LfsClient(url, 'wrong');
+
+    await expect(client.upload(Buffer.from('content'))).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(server.objects.size).toBe(0);
+  });
+
+  it('asks a token source for a new token after a 401', async () => {
+    const tokens = ['revoked', 'secret'];
+    const source: TokenSource = {
+      getToken: jest.fn(async () => tokens[0]),
+      invalidate: jest.fn(() => {
+        tokens.shift();
+      }),
+    };
+    const client = new LfsClient(url, source);
+
+    const content = Buffer.from('uploaded with a fresh token');
+    await client.upload(content);
+
+    expect(source.invalidate).toHaveBeenCalledTimes(1);
+    expect(server.objects.get(createPointer(content).oid)).toEqual(content);
+  });
+
+  it('gives up when the new token is refused too', async () => {
+    const source: TokenSource = { getToken: async () => 'revoked', invalidate: jest.fn() };
+    const client = new LfsClient(url, source);
+
+    await expect(client.upload(Buffer.from('content'))).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(source.invalidate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+import axios, { type AxiosInstance, isAxiosError } from 'axios';
+import { createHttpClient } from '../git/http';
+import type { TokenSource } from '../github/app-auth';
+import { type LfsPointer, createPointer } from './pointer';
+
+const LFS_MEDIA_TYPE = 'application/vnd.git-lfs+json';
+
+interface LfsAction {
+  href: string;
+  header?: Record<string, string>;
+}
+
+interface BatchObject extends LfsPointer {
+  actions?: { upload?: LfsAction; verify?: LfsAction; download?: LfsAction };
+  error?: { code: number; message: string };
+}
+
+/**
+ * Error from the LFS server for a single object (status follows the batch API's error codes)
+ */
+export class LfsError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'LfsError';
+  }
+}
+
+/**
+ * Client for the Git LFS batch API, using the basic transfer adapter
+ */
+export class LfsClient {
+  private http: AxiosInstance;
+
+  /**
+   * @param url LFS endpoint, e.g. https://github.com/owner/repo.git/info/lfs
+   * @param auth Token sent as the password of HTTP basic auth, or a TokenSource (such as a
+   *   GitHub App installation) asked for a fresh token on every batch request
+   */
+  constructor(
+    url: string,
+    private auth?: string | TokenSource
+  ) {
+    this.http = createHttpClient(url, {
+      accept: LFS_MEDIA_TYPE,
+      'content-type': LFS_MEDIA_TYPE,
+    });
+  }
+
+  /**
+   * Upload content unless the server already has it
+   */
+  async upload(content: Buffer): Promise<LfsPointer> {
+    const pointer = createPointer(content);
+    const object = await this.batch('upload', pointer);
+
+    const upload = object.actions?.upload;
+    if (upload) {
+      await axios.put(upload.href, content, {
+        headers: { 'content-type': 'application/octet-stream', ...upload.header },
+      });
+    }
+
+    const verify = object.actions?.verify;
+    if (verify) {
+      await axios.post(verify.href, pointer, {
+        headers: { 'content-type': LFS_MEDIA_TYPE, accept: LFS_MEDIA_TYPE, ...verify.header },
+      });
+    }
+
+    return pointer;
+  }
+
+  /**
+   * Download an object, checking it against the pointer
+   */
+  async download(pointer: LfsPointer): Promise<Buffer> {
+    const object = await this.batch('download', pointer);
+
+    const download = object.actions?.download;
+    if (!download) {
+      throw new LfsError(`LFS object ${pointer.oid} has no download action`, 502);
+    }
+
+    const { data } = await axios.get<ArrayBuffer>(download.href, {
+      headers: download.header,
+      responseType: 'arraybuffer',
+    });
+    const content = Buffer.from(data);
+
+    if (createPointer(content).oid !== pointer.oid) {
+      throw new LfsError(`LFS object ${pointer.oid} failed its checksum`, 502);
+    }
+    return content;
+  }
+
+  private async authorization(): Promise<Record<string, string>> {
+    if (!this.auth) return {};
+
+    // Installation tokens go with the x-access-token user, as for git over HTTPS
+    const [user, token] =
+      typeof this.auth === 'string'
+        ? ['docpush', this.auth]
+        : ['x-access-token', await this.auth.getToken()];
+    return { authorization: `Basic ${Buffer.from(`${user}:${token}`).toString('base64')}` };
+  }
+
+  private async batch(operation: 'upload' | 'download', pointer: LfsPointer): Promise<BatchObject> {
+    const request = async () =>
+      this.http.post<{ objects: BatchObject[] }>(
+        '/objects/batch',
+        { operation, transfers: ['basic'], objects: [pointer], hash_algo: 'sha256' },
+        { headers: await this.authorization() }
+      );
+
+    let response: Awaited<ReturnType<typeof request>>;
+    try {
+      response = await request();
+    } catch (e: unknown) {
+      // A revoked or expired installation token: mint a new one and try once more
+      if (typeof this.auth !== 'object' || !isAxiosError(e) || e.response?.status !== 401) {
+        throw e;
+      }
+      this.auth.invalidate();
+      response = await request();
+    }
+    const { data } = response;
+
+    const object = data.objects.find((item) => item.oid === pointer.oid);
+    if (!object) {
+      throw new LfsError(`LFS server did not return object ${pointer.oid}`, 502);
+    }
+    if (object.error) {
+      throw new LfsError(object.error.message, object.error.code);
+    }
+    return object;
+  }
+}
@@ -0,0 +1,39 @@
+import type { DocsConfig } from '../config';
+import { ConfigError } from '../errors';
+import { githubAuth } from '../git';
+import type { TokenSource } from '../github/app-auth';
+import type { DocSource } from '../sources';
+import { LfsClient } from './client';
+
+/**
+ * LFS client for a source's repository: lfs.url, or the git host's endpoint for the repository.
+ * Authenticates with LFS_TOKEN, then the source's token or the git provider's own auth (for
+ * GitHub, the App installation token when GITHUB_APP_ID is set).
+ */
+export function createLfsClient(config: DocsConfig, source: DocSource): LfsClient {
+  let url = config.lfs.url;
+  let token: string | TokenSource | undefined = source.token;
+
+  switch (config.git.provider) {
+    case 'github':
+      url ||= `https://github.com/${source.owner}/${source.repo}.git/info/lfs`;
+      token ||= githubAuth();
+      break;
+    case 'gitlab':
+    case 'gitea':
+      url ||= `${config.git.url.replace(/\/$/, '')}/${source.owner}/${source.repo}.git/info/lfs`;
+      token ||= process.env[config.git.provider === 'gitlab' ? 'GITLAB_TOKEN' : 'GITEA_TOKEN'];
+      break;
+  }
+
+  if (!url) {
+    throw new ConfigError('Set lfs.url to store LFS-tracked media with the local git provider');
+  }
+  return new LfsClient(url, process.env.LFS_TOKEN || token);
+}
+
+export { LfsClient, LfsError } from './client';
+export { createPointer, parsePointer, serializePointer } from './pointer';
+export { parseAttributes, matchesPattern, isLfsTracked } from './attributes';
+export type { LfsPointer } from './pointer';
+export type { LfsRule } from './attributes';
@@ -0,0 +1,44 @@
+import { createHash } from 'node:crypto';
+
+const POINTER_VERSION = 'https://git-lfs.github.com/spec/v1';
+
+// Pointer files are a few lines; anything bigger is real content
+const MAX_POINTER_SIZE = 1024;
+
+/**
+ * LFS object as referenced by a pointer file (oid is the SHA-256 of the content)
+ */
+export interface LfsPointer {
+  oid: string;
+  size: number;
+}
+
+export function createPointer(content: Buffer): LfsPointer {
+  return {
+    oid: createHash('sha256').update(content).digest('hex'),
+    size: content.length,
+  };
+}
+
+/**
+ * Pointer file committed in place of the content
+ */
+export function serializePointer(pointer: LfsPointer): string {
+  return `version ${POINTER_VERSION}\noid sha256:${pointer.oid}\nsize ${pointer.size}\n`;
+}
+
+/**
+ * Parse a pointer file, or null if the content is not one
+ */
+export function parsePointer(content: Buffer): LfsPointer | null {
+  if (content.length > MAX_POINTER_SIZE) return null;
+
+  const text = content.toString('utf-8');
+  if (!text.startsWith(`version ${POINTER_VERSION}\n`)) return null;
+
+  const oid = text.match(/^oid sha256:([0-9a-f]{64})$/m);
+  const size = text.match(/^size (\d+)$/m);
+  if (!oid || !size) return null;
+
+  return { oid: oid[1], size: Number(size[1]) };
+}
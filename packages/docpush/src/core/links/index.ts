@@ -0,0 +1,10 @@
+export { rewriteLinks, linksTo } from './rewrite';
+export {
+  REDIRECTS_FILE,
+  readRedirects,
+  serializeRedirects,
+  addRedirect,
+  findRedirect,
+} from './redirects';
+export type { PathMapper } from './rewrite';
+export type { Redirect } from './redirects';
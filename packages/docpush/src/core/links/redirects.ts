@@ -0,0 +1,52 @@
+import type { GitProvider } from '../git/provider';
+
+/**
+ * Redirect left behind by a moved (to = new path) or deleted (to = null) doc
+ */
+export interface Redirect {
+  from: string;
+  to: string | null;
+  createdAt: string;
+}
+
+// Kept next to the docs (relative to docsPath) so redirects are versioned with them
+export const REDIRECTS_FILE = 'redirects.json';
+
+/**
+ * Read the redirects file at ref (empty if there is none yet)
+ */
+export async function readRedirects(git: GitProvider, ref?: string): Promise<Redirect[]> {
+  let content: string;
+  try {
+    content = await git.getFileContent(REDIRECTS_FILE, ref);
+  } catch (e: unknown) {
+    const error = e as { status?: number };
+    if (error.status === 404) return [];
+    throw e;
+  }
+
+  const parsed = JSON.parse(content) as { redirects?: Redirect[] };
+  return parsed.redirects || [];
+}
+
+export function serializeRedirects(redirects: Redirect[]): string {
+  return `${JSON.stringify({ redirects }, null, 2)}\n`;
+}
+
+/**
+ * Record that from moved to `to` (or was deleted). Earlier redirects into from are
+ * repointed so chains resolve in one hop, and a redirect away from `to` is dropped since
+ * a doc lives there now.
+ */
+export function addRedirect(redirects: Redirect[], from: string, to: string | null): Redirect[] {
+  return [
+    ...redirects
+      .filter((r) => r.from !== from && r.from !== to)
+      .map((r) => (r.to === from ? { ...r, to } : r)),
+    { from, to, createdAt: new Date().toISOString() },
+  ];
+}
+
+export function findRedirect(redirects: Redirect[], docPath: string): Redirect | undefined {
+  return redirects.find((r) => r.from === docPath);
+}
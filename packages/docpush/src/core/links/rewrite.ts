@@ -0,0 +1,106 @@
+import path from 'node:path';
+
+/**
+ * Maps a doc-relative path (e.g. guide/setup.md) to its new path, or undefined to keep it
+ */
+export type PathMapper = (docPath: string) => string | undefined;
+
+// [text](target "title") and ![alt](target)
+const INLINE_LINK = /(!?\[[^\]]*\]\(\s*)(<[^>]*>|[^\s)]+)/g;
+// [id]: target
+const REFERENCE_LINK = /^(\s{0,3}\[[^\]]+\]:\s*)(<[^>]*>|\S+)/;
+// <img src="..."> and <a href="...">
+const HTML_LINK = /(\b(?:src|href)\s*=\s*["'])([^"']+)(?=["'])/g;
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+
+function isExternal(target: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('/') || target.startsWith('#');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Rewrite one link target written in a doc at fromDoc, for the doc now living at toDoc
+ */
+function rewriteTarget(target: string, fromDoc: string, toDoc: string, map: PathMapper): string {
+  const angled = target.startsWith('<') && target.endsWith('>');
+  const raw = angled ? target.slice(1, -1) : target;
+  if (isExternal(raw)) return target;
+
+  const [, linkPath, suffix] = raw.match(/^([^?#]*)(.*)$/) as RegExpMatchArray;
+  if (!linkPath) return target;
+
+  // Resolve under a fake root so links above docsPath stay well-defined
+  const resolved = path.posix.join('/', path.posix.dirname(fromDoc), linkPath).slice(1);
+  const encoded = linkPath !== safeDecode(linkPath);
+  const mapped = map(safeDecode(resolved));
+  const destination = mapped ? (encoded ? encodeURI(mapped) : mapped) : resolved;
+
+  let relative = path.posix.relative(
+    path.posix.join('/', path.posix.dirname(toDoc)),
+    path.posix.join('/', destination)
+  );
+  if (linkPath.endsWith('/') && relative) relative += '/';
+
+  // Unchanged link: keep the author's spelling (./ prefixes and the like)
+  if (relative === path.posix.normalize(linkPath)) return target;
+  if (linkPath.startsWith('./') && !relative.startsWith('.')) relative = `./${relative}`;
+
+  const rewritten = `${relative || '.'}${suffix}`;
+  return angled ? `<${rewritten}>` : rewritten;
+}
+
+/**
+ * Rewrite relative links and image paths in a markdown doc.
+ * Targets are resolved against fromDoc, passed through map, and written relative to toDoc,
+ * so this handles both links to a moved doc and the moved doc's own links.
+ * Absolute URLs, root-relative paths, anchors and fenced code blocks are left alone.
+ */
+export function rewriteLinks(
+  content: string,
+  fromDoc: string,
+  toDoc: string,
+  map: PathMapper
+): string {
+  const rewrite = (target: string) => rewriteTarget(target, fromDoc, toDoc, map);
+  let fence: string | null = null;
+
+  return content
+    .split('\n')
+    .map((line) => {
+      const marker = line.match(FENCE)?.[1];
+      if (fence) {
+        if (marker?.[0] === fence[0] && marker.length >= fence.length) fence = null;
+        return line;
+      }
+      if (marker) {
+        fence = marker;
+        return line;
+      }
+
+      return line
+        .replace(REFERENCE_LINK, (_, prefix: string, target: string) => prefix + rewrite(target))
+        .replace(INLINE_LINK, (_, prefix: string, target: string) => prefix + rewrite(target))
+        .replace(HTML_LINK, (_, prefix: string, target: string) => prefix + rewrite(target));
+    })
+    .join('\n');
+}
+
+/**
+ * Whether a doc at docPath has a relative link to target
+ */
+export function linksTo(content: string, docPath: string, target: string): boolean {
+  let found = false;
+  rewriteLinks(content, docPath, docPath, (linked) => {
+    if (linked === target) found = true;
+    return undefined;
+  });
+  return found;
+}
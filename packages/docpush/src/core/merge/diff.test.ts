@@ -0,0 +1,79 @@
+import { diffLines, formatUnifiedDiff, splitLines } from './diff';
+
+function unified(oldText: string, newText: string): string {
+  return formatUnifiedDiff(diffLines(oldText, newText), 'a', 'b');
+}
+
+describe('splitLines', () => {
+  it('does not count a final newline as an empty line', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitLines('a')).toEqual(['a']);
+    expect(splitLines('a\n')).toEqual(['a']);
+    expect(splitLines('a\r\nb\r\n')).toEqual(['a', 'b']);
+    expect(splitLines('a\n\n')).toEqual(['a', '']);
+  });
+});
+
+describe('diffLines', () => {
+  it('numbers an added file from line 1', () => {
+    expect(unified('', 'a\n')).toBe('--- a\n+++ b\n@@ -0,0 +1,1 @@\n+a\n');
+  });
+
+  it('counts only real lines', () => {
+    const [hunk] = diffLines('a\nb\nc\n', 'a\nB\nc\n');
+
+    expect(hunk).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 });
+    expect(hunk.lines.map((line) => line.type)).toEqual(['context', 'remove', 'add', 'context']);
+  });
+
+  it('finds no changes between identical files', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual([]);
+    expect(diffLines('a\nb', 'a\nb')).toEqual([]);
+  });
+
+  it('marks a last line without a newline', () => {
+    expect(unified('a\nb', 'a\nc')).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '\\ No newline at end of file',
+        '+c',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('shows a newline added at the end of the file', () => {
+    expect(unified('a\nb', 'a\nb\n')).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '\\ No newline at end of file',
+        '+b',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('marks unchanged context at the end of a file without a newline', () => {
+    expect(unified('a\nb', 'A\nb')).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -1,2 +1,2 @@',
+        '-a',
+        '+A',
+        ' b',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Lines old[oldStart, oldEnd) replaced by new[newStart, newEnd)
+ */
+export interface LineChange {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  // 1-based line numbers; absent on the side the line doesn't exist in
+  oldLine?: number;
+  newLine?: number;
+  // Last line of a file that doesn't end with a newline
+  noNewline?: boolean;
+}
+
+/**
+ * Changed region with surrounding context, as in a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Lines of text without their terminators; a final newline ends the last line rather than
+ * starting an empty one
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Lines with their terminators, so a last line missing its newline differs from one that has it
+function terminatedLines(lines: string[], text: string): string[] {
+  if (text.endsWith('\n')) return lines.map((line) => `${line}\n`);
+  return lines.map((line, i) => (i < lines.length - 1 ? `${line}\n` : line));
+}
+
+/**
+ * Changed regions between two versions, from a longest common subsequence of lines
+ */
+export function lineChanges(oldLines: string[], newLines: string[]): LineChange[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  let oldStart = 0;
+  let newStart = 0;
+
+  const flush = () => {
+    if (i > oldStart || j > newStart) {
+      changes.push({ oldStart, oldEnd: i, newStart, newEnd: j });
+    }
+  };
+
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      flush();
+      i++;
+      j++;
+      oldStart = i;
+      newStart = j;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  i = n;
+  j = m;
+  flush();
+
+  return changes;
+}
+
+/**
+ * Line diff between two versions, grouped into hunks with `context` unchanged lines around
+ * each change (changes closer than twice the context share a hunk)
+ */
+export function diffLines(oldText: string, newText: string, context = 3): DiffHunk[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const changes = lineChanges(
+    terminatedLines(oldLines, oldText),
+    terminatedLines(newLines, newText)
+  );
+
+  // Index of each side's last line when it has no newline, -1 otherwise
+  const oldUnterminated = oldText.endsWith('\n') ? -1 : oldLines.length - 1;
+  const newUnterminated = newText.endsWith('\n') ? -1 : newLines.length - 1;
+
+  const hunks: DiffHunk[] = [];
+
+  for (let i = 0; i < changes.length; ) {
+    const group = [changes[i]];
+    for (i++; i < changes.length; i++) {
+      const gap = changes[i].oldStart - group[group.length - 1].oldEnd;
+      if (gap > context * 2) break;
+      group.push(changes[i]);
+    }
+
+    const first = group[0];
+    const last = group[group.length - 1];
+    const oldStart = Math.max(0, first.oldStart - context);
+    const newStart = first.newStart - (first.oldStart - oldStart);
+    const oldEnd = Math.min(oldLines.length, last.oldEnd + context);
+    const newEnd = last.newEnd + (oldEnd - last.oldEnd);
+
+    const lines: DiffLine[] = [];
+    let oldPos = oldStart;
+    let newPos = newStart;
+
+    const pushContext = (until: number) => {
+      for (; oldPos < until; oldPos++, newPos++) {
+        lines.push({
+          type: 'context',
+          content: oldLines[oldPos],
+          oldLine: oldPos + 1,
+          newLine: newPos + 1,
+          ...(oldPos === oldUnterminated && { noNewline: true }),
+        });
+      }
+    };
+
+    for (const change of group) {
+      pushContext(change.oldStart);
+      for (; oldPos < change.oldEnd; oldPos++) {
+        lines.push({
+          type: 'remove',
+          content: oldLines[oldPos],
+          oldLine: oldPos + 1,
+          ...(oldPos === oldUnterminated && { noNewline: true }),
+        });
+      }
+      for (; newPos < change.newEnd; newPos++) {
+        lines.push({
+          type: 'add',
+          content: newLines[newPos],
+          newLine: newPos + 1,
+          ...(newPos === newUnterminated && { noNewline: true }),
+        });
+      }
+    }
+    pushContext(oldEnd);
+
+    hunks.push({
+      // Unified diffs number an empty range from the line before it
+      oldStart: oldEnd > oldStart ? oldStart + 1 : oldStart,
+      oldLines: oldEnd - oldStart,
+      newStart: newEnd > newStart ? newStart + 1 : newStart,
+      newLines: newEnd - newStart,
+      lines,
+    });
+  }
+
+  return hunks;
+}
+
+/**
+ * Render hunks as a unified diff
+ */
+export function formatUnifiedDiff(hunks: DiffHunk[], fromLabel: string, toLabel: string): string {
+  if (hunks.length === 0) return '';
+
+  const prefix = { context: ' ', add: '+', remove: '-' } as const;
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+
+  for (const hunk of hunks) {
+    out.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      out.push(`${prefix[line.type]}${line.content}`);
+      if (line.noNewline) out.push('\\ No newline at end of file');
+    }
+  }
+
+  return `${out.join('\n')}\n`;
+}
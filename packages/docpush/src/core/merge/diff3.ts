@@ -0,0 +1,137 @@
+import { lineChanges } from './diff';
+
+/**
+ * Region of a merged document. Stable hunks merged cleanly (unchanged, or changed on one
+ * side only); conflict hunks were changed differently on both sides.
+ */
+export type MergeHunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; id: number; base: string[]; draft: string[]; current: string[] };
+
+export type HunkResolution = 'draft' | 'current' | 'base' | 'both' | { text: string };
+
+/**
+ * Lines base[baseStart, baseEnd) replaced by side[start, end)
+ */
+interface Change {
+  side: 'draft' | 'current';
+  baseStart: number;
+  baseEnd: number;
+  start: number;
+  end: number;
+}
+
+// A final newline leaves an empty last line, so joining the merged lines restores it
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+function diffRegions(base: string[], side: string[], name: Change['side']): Change[] {
+  return lineChanges(base, side).map((change) => ({
+    side: name,
+    baseStart: change.oldStart,
+    baseEnd: change.oldEnd,
+    start: change.newStart,
+    end: change.newEnd,
+  }));
+}
+
+/**
+ * Three-way merge of draft and current against their common base, line by line
+ */
+export function diff3Merge(base: string, draft: string, current: string): MergeHunk[] {
+  const baseLines = splitLines(base);
+  const sides = { draft: splitLines(draft), current: splitLines(current) };
+
+  const changes = [
+    ...diffRegions(baseLines, sides.draft, 'draft'),
+    ...diffRegions(baseLines, sides.current, 'current'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const hunks: MergeHunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last?.type === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      hunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  let basePos = 0;
+  let conflictId = 0;
+
+  for (let i = 0; i < changes.length; ) {
+    // Group changes whose base ranges overlap or touch
+    const group = [changes[i]];
+    let baseEnd = changes[i].baseEnd;
+    for (i++; i < changes.length && changes[i].baseStart <= baseEnd; i++) {
+      group.push(changes[i]);
+      baseEnd = Math.max(baseEnd, changes[i].baseEnd);
+    }
+
+    const baseStart = group[0].baseStart;
+    pushStable(baseLines.slice(basePos, baseStart));
+    basePos = baseEnd;
+
+    // Each side's lines over the whole group range
+    const sideLines = (name: Change['side']): string[] => {
+      const own = group.filter((c) => c.side === name);
+      if (own.length === 0) return baseLines.slice(baseStart, baseEnd);
+      const first = own[0];
+      const last = own[own.length - 1];
+      return sides[name].slice(
+        first.start - (first.baseStart - baseStart),
+        last.end + (baseEnd - last.baseEnd)
+      );
+    };
+
+    const draftLines = sideLines('draft');
+    const currentLines = sideLines('current');
+
+    if (group.every((c) => c.side === 'draft')) {
+      pushStable(draftLines);
+    } else if (group.every((c) => c.side === 'current') || sameLines(draftLines, currentLines)) {
+      pushStable(currentLines);
+    } else {
+      hunks.push({
+        type: 'conflict',
+        id: conflictId++,
+        base: baseLines.slice(baseStart, baseEnd),
+        draft: draftLines,
+        current: currentLines,
+      });
+    }
+  }
+
+  pushStable(baseLines.slice(basePos));
+  return hunks;
+}
+
+/**
+ * Build the merged document, resolving each conflict hunk by id (unresolved hunks keep the draft)
+ */
+export function applyResolutions(
+  hunks: MergeHunk[],
+  resolutions: Record<number, HunkResolution>
+): string {
+  const lines = hunks.flatMap((hunk) => {
+    if (hunk.type === 'stable') return hunk.lines;
+
+    const resolution = resolutions[hunk.id] ?? 'draft';
+    if (typeof resolution === 'object') return splitLines(resolution.text);
+    if (resolution === 'both') return [...hunk.draft, ...hunk.current];
+    return hunk[resolution];
+  });
+
+  return lines.join('\n');
+}
+
+export function hasConflicts(hunks: MergeHunk[]): boolean {
+  return hunks.some((hunk) => hunk.type === 'conflict');
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
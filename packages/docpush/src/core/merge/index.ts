@@ -0,0 +1,4 @@
+export { diff3Merge, applyResolutions, hasConflicts } from './diff3';
+export { diffLines, formatUnifiedDiff } from './diff';
+export type { MergeHunk, HunkResolution } from './diff3';
+export type { DiffHunk, DiffLine } from './diff';
@@ -0,0 +1,82 @@
+import type { DocsConfig } from '../config';
+
+/**
+ * Documentation repository, with its docs shown in the tree under prefix
+ * (the single repository of a `github` config has id "default" and an empty prefix)
+ */
+export interface DocSource {
+  id: string;
+  label: string;
+  prefix: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  docsPath: string;
+  token?: string;
+  repoPath?: string;
+}
+
+// Source of drafts and docs when no `sources` are configured
+export const DEFAULT_SOURCE_ID = 'default';
+
+/**
+ * Configured sources, or the `github` repository as the only one
+ */
+export function getSources(config: DocsConfig): DocSource[] {
+  if (config.sources.length === 0) {
+    return [
+      {
+        id: DEFAULT_SOURCE_ID,
+        label: config.branding?.name ?? 'Documentation',
+        prefix: '',
+        ...config.github,
+      },
+    ];
+  }
+
+  return config.sources.map((source) => ({
+    ...source,
+    label: source.label ?? source.id,
+    prefix: source.prefix ?? source.id,
+  }));
+}
+
+/**
+ * Source by id; drafts recorded without one belong to the first source
+ */
+export function getSource(config: DocsConfig, id?: string): DocSource | undefined {
+  const sources = getSources(config);
+  return id === undefined ? sources[0] : sources.find((source) => source.id === id);
+}
+
+/**
+ * Source a tree path belongs to, and the path relative to that source's docsPath
+ */
+export function resolveSource(
+  config: DocsConfig,
+  docPath: string
+): { source: DocSource; path: string } | null {
+  for (const source of getSources(config)) {
+    if (!source.prefix) return { source, path: docPath };
+    if (docPath.startsWith(`${source.prefix}/`)) {
+      return { source, path: docPath.slice(source.prefix.length + 1) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Tree path of a path relative to the source's docsPath
+ */
+export function toTreePath(source: DocSource, filePath: string): string {
+  return source.prefix ? `${source.prefix}/${filePath}` : filePath;
+}
+
+/**
+ * Path relative to the source's docsPath of a tree path in that source
+ */
+export function fromTreePath(source: DocSource, treePath: string): string {
+  return source.prefix && treePath.startsWith(`${source.prefix}/`)
+    ? treePath.slice(source.prefix.length + 1)
+    : treePath;
+}
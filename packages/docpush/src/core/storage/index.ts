@@ -0,0 +1,12 @@
+export type {
+  Draft,
+  DraftComment,
+  DocOperation,
+  DraftQuery,
+  LinkUpdate,
+  MigrationOptions,
+  MigrationReport,
+  SessionUser,
+  StorageAdapter,
+  StorageBatch,
+} from './types';
@@ -0,0 +1,138 @@
+export type DocOperation = 'rename' | 'move' | 'delete';
+
+/**
+ * Links updated for a rename, move or delete (tree paths)
+ */
+export interface LinkUpdate {
+  // Docs whose links now point at the new location
+  rewritten: string[];
+  // Docs still linking to a deleted doc
+  brokenLinks: string[];
+}
+
+export interface Draft {
+  id: string;
+  // Path in the docs tree, including the source prefix
+  docPath: string;
+  branchName: string;
+  title: string;
+  authorId: string | null;
+  authorEmail: string | null;
+  // in-review: PR opened on approval, waiting for it to be merged on the git host
+  status: 'pending' | 'in-review' | 'approved' | 'rejected';
+  prNumber?: number;
+  prUrl?: string;
+  // Created from a PR opened outside DocPush; the branch belongs to the PR author
+  imported?: boolean;
+  // Everyone who committed to the draft, for Co-authored-by trailers
+  editors?: Array<{ name: string; email: string }>;
+  // Base branch commit the draft last included (branch point, then last sync)
+  baseSha?: string;
+  // The published doc changed since baseSha (set by the push webhook, cleared by sync)
+  stale?: boolean;
+  // Renames, moves or deletes docPath instead of editing it (rename stays in the same folder)
+  operation?: DocOperation;
+  // Where a rename or move puts the doc
+  newPath?: string;
+  // Set once approval has committed the operation's link updates and redirect
+  linkUpdate?: LinkUpdate;
+  // Id of the documentation source the doc lives in (absent: the first source)
+  source?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DraftComment {
+  id: string;
+  draftId: string;
+  userId: string | null;
+  userEmail: string | null;
+  userName: string | null;
+  content: string;
+  createdAt: number;
+}
+
+/**
+ * Draft filter; every field given must match
+ */
+export interface DraftQuery {
+  status?: Draft['status'];
+  authorEmail?: string;
+  docPath?: string;
+}
+
+export interface SessionUser {
+  userId: string;
+  email: string;
+  name?: string;
+}
+
+export interface MigrationOptions {
+  // Report pending migrations without applying them
+  dryRun?: boolean;
+  // Copy the data aside before migrating (default true)
+  backup?: boolean;
+}
+
+export interface MigrationReport {
+  // Schema version found and the version after migrating
+  from: number;
+  to: number;
+  // Migrations applied (or pending, on a dry run), oldest first
+  migrations: Array<{ version: number; description: string }>;
+  backupPath?: string;
+  dryRun: boolean;
+}
+
+/**
+ * Records written together by an import: deleteDrafts go first (with their comments), then
+ * drafts and comments are stored exactly as given
+ */
+export interface StorageBatch {
+  deleteDrafts: string[];
+  drafts: Draft[];
+  comments: DraftComment[];
+}
+
+/**
+ * Backend for drafts, comments, sessions and magic links. Adapters assign ids and
+ * timestamps (seconds) and return null or false for unknown ids rather than throwing.
+ * checkStorageAdapter runs the checks every adapter must pass.
+ */
+export interface StorageAdapter {
+  getDrafts(status?: string): Promise<Draft[]>;
+  findDrafts(query: DraftQuery): Promise<Draft[]>;
+  getDraft(id: string): Promise<Draft | null>;
+  getDraftByBranch(branchName: string): Promise<Draft | null>;
+  createDraft(draft: Omit<Draft, 'id' | 'createdAt' | 'updatedAt'>): Promise<Draft>;
+  // Bumps updatedAt
+  updateDraft(id: string, updates: Partial<Draft>): Promise<Draft | null>;
+  // Also deletes the draft's comments
+  deleteDraft(id: string): Promise<boolean>;
+  // Insert or replace a draft exactly as given, keeping its id and timestamps (for imports)
+  putDraft(draft: Draft): Promise<void>;
+
+  // Oldest first
+  getComments(draftId: string): Promise<DraftComment[]>;
+  addComment(comment: Omit<DraftComment, 'id' | 'createdAt'>): Promise<DraftComment>;
+  // Insert or replace a comment exactly as given; its draft must exist
+  putComment(comment: DraftComment): Promise<void>;
+  // Apply the whole batch or, if any part fails, none of it
+  writeBatch(batch: StorageBatch): Promise<void>;
+
+  // Returns the session token (valid for 24 hours)
+  createSession(userId: string, email: string, name?: string): Promise<string>;
+  getSession(token: string): Promise<SessionUser | null>;
+  deleteSession(token: string): Promise<void>;
+
+  // Returns the link token (valid for 15 minutes, once)
+  createMagicLink(email: string): Promise<string>;
+  // Email of a valid unused link, which is then used up
+  verifyMagicLink(token: string): Promise<string | null>;
+
+  // Drop expired sessions and magic links
+  cleanupExpired(): Promise<void>;
+
+  // Upgrade stored data to the current schema version (adapters without one manage their own)
+  migrate?(options?: MigrationOptions): Promise<MigrationReport>;
+}
@@ -1,8 +1,92 @@
 // Main package exports
 export { loadConfig, configSchema, validateEnv, resetConfigCache } from './core/config';
 export type { DocsConfig } from './core/config';
-export { GitHubClient, retryWithBackoff, GitHubAPIError } from './core/github';
-export type { RetryOptions } from './core/github';
+export {
+  GitHubClient,
+  GitHubCache,
+  githubCache,
+  InstallationTokenProvider,
+  createAppJwt,
+  retryWithBackoff,
+  GitHubAPIError,
+  RateLimitTracker,
+  rateLimitTracker,
+} from './core/github';
+export type {
+  RetryOptions,
+  RetryEvent,
+  RateLimitBudget,
+  RateLimitOptions,
+  RateLimitResource,
+  CacheStats,
+  GitHubAppOptions,
+  TokenExchange,
+  TokenSource,
+} from './core/github';
+export {
+  createGitProvider,
+  GitLabProvider,
+  GiteaProvider,
+  LocalGitProvider,
+  GitCommandError,
+} from './core/git';
+export type {
+  GitProvider,
+  CommitAuthor,
+  CommitOptions,
+  DocTreeItem,
+  FileChange,
+  FileHistoryEntry,
+  HistoryOptions,
+  BlameLine,
+  BranchInfo,
+  BranchStatus,
+  SyncStrategy,
+  SyncOptions,
+  MergeMethod,
+  PullRequestOptions,
+  PullRequestStatus,
+  OpenPullRequest,
+  SyncResult,
+} from './core/git';
+export {
+  diff3Merge,
+  applyResolutions,
+  hasConflicts,
+  diffLines,
+  formatUnifiedDiff,
+} from './core/merge';
+export type { MergeHunk, HunkResolution, DiffHunk, DiffLine } from './core/merge';
+export {
+  rewriteLinks,
+  linksTo,
+  readRedirects,
+  addRedirect,
+  findRedirect,
+  REDIRECTS_FILE,
+} from './core/links';
+export type { PathMapper, Redirect } from './core/links';
+export {
+  getSources,
+  getSource,
+  resolveSource,
+  toTreePath,
+  fromTreePath,
+  DEFAULT_SOURCE_ID,
+} from './core/sources';
+export type { DocSource } from './core/sources';
+export {
+  createLfsClient,
+  LfsClient,
+  LfsError,
+  createPointer,
+  parsePointer,
+  serializePointer,
+  parseAttributes,
+  matchesPattern,
+  isLfsTracked,
+} from './core/lfs';
+export type { LfsPointer, LfsRule } from './core/lfs';
 export { createServer, startServer } from './server';
 export {
   DocPushError,
@@ -10,6 +94,9 @@ export {
   AuthError,
   DraftNotFoundError,
   DocNotFoundError,
+  BranchMovedError,
+  StorageLockError,
+  StorageVersionError,
   ValidationError,
   EnvError,
 } from './core/errors';
@@ -17,16 +104,58 @@ export {
   generateId,
   now,
   getDrafts,
+  findDrafts,
   getDraft,
   createDraft,
   updateDraft,
   deleteDraft,
+  putDraft,
   getComments,
   addComment,
+  putComment,
   createSession,
   getSession,
   deleteSession,
   createMagicLink,
   verifyMagicLink,
+  cleanupExpired,
+  createStorageAdapter,
+  setStorageAdapter,
+  getStorageAdapter,
+  migrateStorage,
+  STORAGE_VERSION,
+  JsonStorageAdapter,
+  SqliteStorageAdapter,
+  checkStorageAdapter,
 } from './server/storage';
-export type { Draft, DraftComment } from './server/storage';
+export type {
+  Draft,
+  DraftComment,
+  DocOperation,
+  DraftQuery,
+  LinkUpdate,
+  MigrationOptions,
+  MigrationReport,
+  SessionUser,
+  StorageAdapter,
+  StorageBatch,
+  ConformanceFailure,
+  ConformanceReport,
+} from './server/storage';
+export { collectGarbage, DRAFT_BRANCH_PREFIX } from './server/gc';
+export {
+  exportState,
+  importState,
+  parseArchive,
+  ARCHIVE_FORMAT,
+  IMPORT_MODES,
+  CONFLICT_STRATEGIES,
+} from './server/archive';
+export type {
+  StateArchive,
+  ImportMode,
+  ConflictStrategy,
+  ImportOptions,
+  ImportReport,
+} from './server/archive';
+export type { GcOptions, GcReport, OrphanBranch, OrphanDraft } from './server/gc';
@@ -0,0 +1,162 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '../lib/utils';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Textarea } from './ui/textarea';
+
+type MergeHunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; id: number; base: string[]; draft: string[]; current: string[] };
+
+type Choice = 'draft' | 'current' | 'both' | 'edit';
+
+interface ConflictResolverProps {
+  hunks: MergeHunk[];
+  onResolve: (content: string) => void;
+  onCancel?: () => void;
+  isSubmitting?: boolean;
+  className?: string;
+}
+
+const choiceLabels: Record<Choice, string> = {
+  draft: 'Keep mine',
+  current: 'Use published',
+  both: 'Keep both',
+  edit: 'Edit',
+};
+
+export function ConflictResolver({
+  hunks,
+  onResolve,
+  onCancel,
+  isSubmitting = false,
+  className,
+}: ConflictResolverProps) {
+  const [choices, setChoices] = React.useState<Record<number, Choice>>({});
+  const [edits, setEdits] = React.useState<Record<number, string>>({});
+
+  const conflicts = hunks.filter((hunk) => hunk.type === 'conflict');
+  const resolvedCount = conflicts.filter((hunk) => choices[hunk.id]).length;
+
+  // Stable hunks sit between conflicts, so the preceding conflict identifies them
+  const stableKeys = new Map<MergeHunk, string>();
+  let lastConflict = -1;
+  for (const hunk of hunks) {
+    if (hunk.type === 'conflict') lastConflict = hunk.id;
+    else stableKeys.set(hunk, `stable-${lastConflict}`);
+  }
+
+  const choose = (hunk: Extract<MergeHunk, { type: 'conflict' }>, choice: Choice) => {
+    setChoices((prev) => ({ ...prev, [hunk.id]: choice }));
+    // Start hand edits from the draft's version
+    if (choice === 'edit' && edits[hunk.id] === undefined) {
+      setEdits((prev) => ({ ...prev, [hunk.id]: hunk.draft.join('\n') }));
+    }
+  };
+
+  const handleResolve = () => {
+    const lines = hunks.flatMap((hunk) => {
+      if (hunk.type === 'stable') return hunk.lines;
+
+      const choice = choices[hunk.id];
+      if (choice === 'edit') return (edits[hunk.id] ?? '').split('\n');
+      if (choice === 'both') return [...hunk.draft, ...hunk.current];
+      if (choice === 'current') return hunk.current;
+      return hunk.draft;
+    });
+    onResolve(lines.join('\n'));
+  };
+
+  return (
+    <Card className={cn('flex h-full flex-col', className)}>
+      <CardHeader className="border-b py-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <MergeIcon className="h-4 w-4" />
+            Resolve conflicts
+          </span>
+          <Badge variant={resolvedCount === conflicts.length ? 'success' : 'warning'}>
+            {resolvedCount}/{conflicts.length} resolved
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex-1 space-y-3 overflow-auto p-4">
+        {hunks.map((hunk) =>
+          hunk.type === 'stable' ? (
+            <pre
+              key={stableKeys.get(hunk)}
+              className="whitespace-pre-wrap text-sm text-muted-foreground"
+            >
+              {hunk.lines.join('\n')}
+            </pre>
+          ) : (
+            <div key={`conflict-${hunk.id}`} className="rounded-lg border border-yellow-500">
+              <div className="grid grid-cols-2 divide-x">
+                <HunkSide title="Your draft" lines={hunk.draft} />
+                <HunkSide title="Published" lines={hunk.current} />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 border-t p-2">
+                {(Object.keys(choiceLabels) as Choice[]).map((choice) => (
+                  <Button
+                    key={choice}
+                    size="sm"
+                    variant={choices[hunk.id] === choice ? 'default' : 'outline'}
+                    onClick={() => choose(hunk, choice)}
+                  >
+                    {choiceLabels[choice]}
+                  </Button>
+                ))}
+              </div>
+              {choices[hunk.id] === 'edit' && (
+                <div className="border-t p-2">
+                  <Textarea
+                    value={edits[hunk.id] ?? ''}
+                    onChange={(e) => setEdits((prev) => ({ ...prev, [hunk.id]: e.target.value }))}
+                    className="min-h-[120px] font-mono text-sm"
+                  />
+                </div>
+              )}
+            </div>
+          )
+        )}
+      </CardContent>
+      <div className="flex justify-end gap-2 border-t p-4">
+        {onCancel && (
+          <Button variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleResolve} disabled={isSubmitting || resolvedCount < conflicts.length}>
+          {isSubmitting ? 'Saving...' : 'Save resolution'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+function HunkSide({ title, lines }: { title: string; lines: string[] }) {
+  return (
+    <div className="min-w-0 p-2">
+      <p className="mb-1 text-xs font-medium text-muted-foreground">{title}</p>
+      <pre className="whitespace-pre-wrap text-sm">
+        {lines.length > 0 ? lines.join('\n') : <em className="text-muted-foreground">(removed)</em>}
+      </pre>
+    </div>
+  );
+}
+
+function MergeIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M7 4v16M7 8c0 4 10 4 10 8v4M17 4v2"
+      />
+    </svg>
+  );
+}
@@ -10,7 +10,9 @@ interface Draft {
   id: string;
   docPath: string;
   title: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'in-review' | 'approved' | 'rejected';
+  operation?: 'rename' | 'move' | 'delete';
+  newPath?: string;
   createdAt: number;
 }
 
@@ -25,6 +27,7 @@ interface DraftsListProps {
 
 const statusVariants = {
   pending: 'warning',
+  'in-review': 'secondary',
   approved: 'success',
   rejected: 'destructive',
 } as const;
@@ -69,7 +72,10 @@ export function DraftsList({
               >
                 <div className="space-y-1">
                   <p className="font-medium">{draft.title}</p>
-                  <p className="text-xs text-muted-foreground">{draft.docPath}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {draft.newPath ? `${draft.docPath} → ${draft.newPath}` : draft.docPath}
+                    {draft.operation === 'delete' && ' (delete)'}
+                  </p>
                 </div>
                 <div className="flex items-center gap-2">
                   <Badge variant={statusVariants[draft.status]}>{draft.status}</Badge>
@@ -0,0 +1,68 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '../lib/utils';
+
+interface DocsVersion {
+  id: string;
+  label: string;
+}
+
+interface VersionSwitcherProps {
+  versions: DocsVersion[];
+  // Selected version id, or null for the latest docs
+  value: string | null;
+  onChange: (version: string | null) => void;
+  latestLabel?: string;
+  className?: string;
+}
+
+// Select value standing in for "no version" (the base branch)
+const LATEST = '';
+
+export function VersionSwitcher({
+  versions,
+  value,
+  onChange,
+  latestLabel = 'Latest',
+  className,
+}: VersionSwitcherProps) {
+  const id = React.useId();
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <label htmlFor={id} className="text-sm text-muted-foreground">
+        <TagIcon className="h-4 w-4" />
+        <span className="sr-only">Version</span>
+      </label>
+      <select
+        id={id}
+        value={value ?? LATEST}
+        onChange={(e) => onChange(e.target.value === LATEST ? null : e.target.value)}
+        className="h-9 rounded-md border border-input bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      >
+        <option value={LATEST}>{latestLabel}</option>
+        {versions.map((version) => (
+          <option key={version.id} value={version.id}>
+            {version.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function TagIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M7 7h.01M7 3h5a1.99 1.99 0 011.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+      />
+    </svg>
+  );
+}
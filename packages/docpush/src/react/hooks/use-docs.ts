@@ -8,7 +8,10 @@ interface DocTreeItem {
   type: 'file' | 'dir';
 }
 
-export function useDocs(path?: string) {
+/**
+ * @param version Version id from useVersions; omit for the latest docs
+ */
+export function useDocs(path?: string, version?: string | null) {
   const { fetcher } = useDocPush();
   const [tree, setTree] = React.useState<DocTreeItem[]>([]);
   const [content, setContent] = React.useState<string | null>(null);
@@ -19,11 +22,12 @@ export function useDocs(path?: string) {
     setLoading(true);
     setError(null);
     try {
-      const treeRes = await fetcher<{ tree: DocTreeItem[] }>('/api/docs/tree');
+      const base = version ? `/api/docs/@${encodeURIComponent(version)}` : '/api/docs';
+      const treeRes = await fetcher<{ tree: DocTreeItem[] }>(`${base}/tree`);
       setTree(treeRes.tree);
 
       if (path) {
-        const contentRes = await fetcher<{ content: string }>(`/api/docs/${path}`);
+        const contentRes = await fetcher<{ content: string }>(`${base}/${path}`);
         setContent(contentRes.content);
       }
     } catch (err) {
@@ -31,7 +35,7 @@ export function useDocs(path?: string) {
     } finally {
       setLoading(false);
     }
-  }, [path, fetcher]);
+  }, [path, version, fetcher]);
 
   React.useEffect(() => {
     fetchData();
@@ -3,16 +3,35 @@
 import * as React from 'react';
 import { useDocPush } from '../context/docpush-provider';
 
+type DocOperation = 'rename' | 'move' | 'delete';
+
 interface Draft {
   id: string;
   docPath: string;
   branchName: string;
   title: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'in-review' | 'approved' | 'rejected';
+  prNumber?: number;
+  prUrl?: string;
+  imported?: boolean;
+  operation?: DocOperation;
+  newPath?: string;
+  source?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+interface DraftConflicts {
+  docPath: string;
+  versions: { base: string; draft: string; current: string };
+  hunks: Array<
+    | { type: 'stable'; lines: string[] }
+    | { type: 'conflict'; id: number; base: string[]; draft: string[]; current: string[] }
+  >;
+  hasConflicts: boolean;
+  baseSha: string;
+}
+
 export function useDrafts(status?: string) {
   const { fetcher } = useDocPush();
   const [drafts, setDrafts] = React.useState<Draft[]>([]);
@@ -37,7 +56,11 @@ export function useDrafts(status?: string) {
     fetchDrafts();
   }, [fetchDrafts]);
 
-  const createDraft = async (data: { docPath: string; title: string; content?: string }) => {
+  const createDraft = async (
+    data:
+      | { docPath: string; title: string; content?: string }
+      | { docPath: string; operation: DocOperation; newPath?: string; title?: string }
+  ) => {
     // Prevent duplicate submissions
     if (isSubmitting) {
       console.warn('Draft submission already in progress');
@@ -65,6 +88,27 @@ export function useDrafts(status?: string) {
     await fetchDrafts();
   };
 
+  const getConflicts = async (id: string) => {
+    return fetcher<DraftConflicts>(`/api/drafts/${id}/conflicts`);
+  };
+
+  const resolveConflicts = async (id: string, content: string, message?: string) => {
+    await fetcher(`/api/drafts/${id}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ content, message }),
+    });
+    await fetchDrafts();
+  };
+
+  const importPullRequests = async () => {
+    const res = await fetcher<{
+      imported: Draft[];
+      skipped: Array<{ prNumber: number; reason: string }>;
+    }>('/api/drafts/import', { method: 'POST' });
+    await fetchDrafts();
+    return res;
+  };
+
   const approveDraft = async (id: string) => {
     await fetcher(`/api/drafts/${id}/approve`, { method: 'POST' });
     await fetchDrafts();
@@ -85,6 +129,9 @@ export function useDrafts(status?: string) {
     isSubmitting,
     createDraft,
     updateDraft,
+    getConflicts,
+    resolveConflicts,
+    importPullRequests,
     approveDraft,
     rejectDraft,
     refetch: fetchDrafts,
@@ -0,0 +1,44 @@
+'use client';
+
+import * as React from 'react';
+import { useDocPush } from '../context/docpush-provider';
+
+interface DocsVersion {
+  id: string;
+  label: string;
+  ref: string;
+  default: boolean;
+}
+
+export function useVersions() {
+  const { fetcher } = useDocPush();
+  const [versions, setVersions] = React.useState<DocsVersion[]>([]);
+  const [defaultVersion, setDefaultVersion] = React.useState<string | null>(null);
+  const [current, setCurrent] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetcher<{ versions: DocsVersion[]; default: string | null }>('/api/docs/versions')
+      .then((res) => {
+        setVersions(res.versions);
+        setDefaultVersion(res.default);
+        // Keep a version the reader already picked
+        setCurrent((prev) => prev ?? res.default);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to load versions');
+      })
+      .finally(() => setLoading(false));
+  }, [fetcher]);
+
+  return {
+    versions,
+    defaultVersion,
+    // Selected version id, or null for the latest docs on the base branch
+    current,
+    setCurrent,
+    loading,
+    error,
+  };
+}
@@ -13,6 +13,8 @@ export { MarkdownEditor } from './components/markdown-editor';
 export { CommentsPanel } from './components/comments-panel';
 export { DraftsList } from './components/drafts-list';
 export { SearchBar } from './components/search-bar';
+export { ConflictResolver } from './components/conflict-resolver';
+export { VersionSwitcher } from './components/version-switcher';
 
 // Hooks
 export { useDocs } from './hooks/use-docs';
@@ -20,6 +22,7 @@ export { useDrafts } from './hooks/use-drafts';
 export { useComments } from './hooks/use-comments';
 export { useAuth } from './hooks/use-auth';
 export { useMedia } from './hooks/use-media';
+export { useVersions } from './hooks/use-versions';
 
 // Context
 export { DocPushProvider, useDocPush } from './context/docpush-provider';
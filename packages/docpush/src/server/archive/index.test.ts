@@ -0,0 +1,87 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'fs-extra';
+import { ARCHIVE_FORMAT, exportState, importState, parseArchive } from '.';
+import {
+  type Draft,
+  type DraftComment,
+  JsonStorageAdapter,
+  STORAGE_VERSION,
+  getComments,
+  getDraft,
+  putComment,
+  putDraft,
+  setStorageAdapter,
+} from '../storage';
+
+// Every optional Draft field set
+const draft: Draft = {
+  id: 'draft-1',
+  docPath: 'api/guide/setup.md',
+  branchName: 'draft/setup',
+  title: 'Move guide/setup.md to start/install.md',
+  authorId: 'user-1',
+  authorEmail: 'writer@example.com',
+  status: 'in-review',
+  prNumber: 42,
+  prUrl: 'https://github.com/acme/docs/pull/42',
+  imported: true,
+  editors: [{ name: 'Writer', email: 'writer@example.com' }],
+  baseSha: 'abc123',
+  stale: true,
+  operation: 'move',
+  newPath: 'api/start/install.md',
+  linkUpdate: { rewritten: ['api/index.md'], brokenLinks: ['api/old.md'] },
+  source: 'api',
+  createdAt: 1700000000,
+  updatedAt: 1700000100,
+};
+
+const comment: DraftComment = {
+  id: 'comment-1',
+  draftId: draft.id,
+  userId: 'user-2',
+  userEmail: 'admin@example.com',
+  userName: 'Admin',
+  content: 'Looks good',
+  createdAt: 1700000050,
+};
+
+describe('archive', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docpush-archive-'));
+    setStorageAdapter(new JsonStorageAdapter(path.join(dir, 'source')));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('round-trips a draft with every optional field', async () => {
+    await putDraft(draft);
+    await putComment(comment);
+    const archive = JSON.parse(JSON.stringify(await exportState()));
+
+    setStorageAdapter(new JsonStorageAdapter(path.join(dir, 'target')));
+    const report = await importState(archive);
+
+    expect(report.imported).toEqual([draft.id]);
+    expect(await getDraft(draft.id)).toEqual(draft);
+    expect(await getComments(draft.id)).toEqual([comment]);
+  });
+
+  it('keeps draft fields the schema does not list', () => {
+    const future = { ...draft, reviewers: ['lead'] };
+    const archive = parseArchive({
+      format: ARCHIVE_FORMAT,
+      version: STORAGE_VERSION,
+      exportedAt: '2026-01-01T00:00:00.000Z',
+      drafts: [future],
+      comments: [],
+    });
+
+    expect(archive.drafts).toEqual([future]);
+  });
+});
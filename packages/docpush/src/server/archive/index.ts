@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { ValidationError } from '../../core/errors';
+import {
+  type Draft,
+  type DraftComment,
+  STORAGE_VERSION,
+  type StorageBatch,
+  generateId,
+  getComments,
+  getDrafts,
+  writeBatch,
+} from '../storage';
+import { JSON_MIGRATIONS, pendingMigrations } from '../storage/migrations';
+
+// Marks a JSON document as a DocPush archive
+export const ARCHIVE_FORMAT = 'docpush-archive';
+
+/**
+ * Portable copy of the review state: every draft with its comments (rejection reasons are
+ * comments). Sessions and magic links are left out.
+ */
+export interface StateArchive {
+  format: typeof ARCHIVE_FORMAT;
+  // Storage schema version the records follow
+  version: number;
+  exportedAt: string;
+  drafts: Draft[];
+  comments: DraftComment[];
+}
+
+// merge: add to the drafts already stored; replace: delete them first
+export type ImportMode = 'merge' | 'replace';
+// What to do with an archive draft whose id is already stored (merge mode)
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'rename'];
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  onConflict?: ConflictStrategy;
+  // Validate and report without writing anything
+  dryRun?: boolean;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  onConflict: ConflictStrategy;
+  dryRun: boolean;
+  // Drafts stored before the import that replace mode deleted
+  removed: number;
+  // Archive drafts added under their own id
+  imported: string[];
+  // Archive drafts whose id was taken: left out, written over the stored draft (and its
+  // comments), or added under a new id
+  skipped: string[];
+  overwritten: string[];
+  renamed: Array<{ from: string; to: string }>;
+  // Comments written
+  comments: number;
+}
+
+// Checks the known fields against Draft (satisfies fails to compile if they disagree) and passes
+// any others through, so a field added to Draft survives an import before it is listed here
+const draftSchema = z
+  .object({
+    id: z.string().min(1),
+    docPath: z.string().min(1),
+    branchName: z.string().min(1),
+    title: z.string(),
+    authorId: z.string().nullable(),
+    authorEmail: z.string().nullable(),
+    status: z.enum(['pending', 'in-review', 'approved', 'rejected']),
+    prNumber: z.number().int().optional(),
+    prUrl: z.string().optional(),
+    imported: z.boolean().optional(),
+    editors: z.array(z.object({ name: z.string(), email: z.string() })).optional(),
+    baseSha: z.string().optional(),
+    stale: z.boolean().optional(),
+    operation: z.enum(['rename', 'move', 'delete']).optional(),
+    newPath: z.string().optional(),
+    linkUpdate: z
+      .object({ rewritten: z.array(z.string()), brokenLinks: z.array(z.string()) })
+      .optional(),
+    source: z.string().optional(),
+    createdAt: z.number().int(),
+    updatedAt: z.number().int(),
+  })
+  .passthrough() satisfies z.ZodType<Draft>;
+
+const commentSchema = z
+  .object({
+    id: z.string().min(1),
+    draftId: z.string().min(1),
+    userId: z.string().nullable(),
+    userEmail: z.string().nullable(),
+    userName: z.string().nullable(),
+    content: z.string(),
+    createdAt: z.number().int(),
+  })
+  .passthrough() satisfies z.ZodType<DraftComment>;
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(STORAGE_VERSION),
+  exportedAt: z.string(),
+  drafts: z.array(draftSchema),
+  comments: z.array(commentSchema),
+});
+
+/**
+ * Archive of every stored draft and comment
+ */
+export async function exportState(): Promise<StateArchive> {
+  const drafts = await getDrafts();
+  const comments: DraftComment[] = [];
+  for (const draft of drafts) {
+    comments.push(...(await getComments(draft.id)));
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: STORAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    drafts,
+    comments,
+  };
+}
+
+/**
+ * Check that input is an archive, upgrading one from an older schema version. Throws a
+ * ValidationError describing the first problem found.
+ */
+export function parseArchive(input: unknown): StateArchive {
+  if (typeof input !== 'object' || input === null) {
+    throw new ValidationError('Archive must be a JSON object');
+  }
+
+  let data = input as Record<string, unknown>;
+  if (data.format !== ARCHIVE_FORMAT) {
+    throw new ValidationError(
+      `Not a DocPush archive (format must be "${ARCHIVE_FORMAT}")`,
+      'format'
+    );
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+    throw new ValidationError('Archive version must be an integer', 'version');
+  }
+
+  // Archive records have the shape of drafts.json, so they upgrade the same way
+  for (const migration of pendingMigrations(JSON_MIGRATIONS, data.version)) {
+    data = { ...(migration.drafts?.(data) ?? data), version: migration.version };
+  }
+
+  const result = archiveSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join('.');
+    throw new ValidationError(`Invalid archive: ${field}: ${issue.message}`, field);
+  }
+  const archive = result.data as StateArchive;
+
+  const draftIds = new Set<string>();
+  for (const draft of archive.drafts) {
+    if (draftIds.has(draft.id)) {
+      throw new ValidationError(`Invalid archive: draft ${draft.id} appears twice`, 'drafts');
+    }
+    draftIds.add(draft.id);
+  }
+
+  const commentIds = new Set<string>();
+  for (const comment of archive.comments) {
+    if (commentIds.has(comment.id)) {
+      throw new ValidationError(`Invalid archive: comment ${comment.id} appears twice`, 'comments');
+    }
+    if (!draftIds.has(comment.draftId)) {
+      throw new ValidationError(
+        `Invalid archive: comment ${comment.id} belongs to missing draft ${comment.draftId}`,
+        'comments'
+      );
+    }
+    commentIds.add(comment.id);
+  }
+
+  return archive;
+}
+
+/**
+ * Load an archive into storage. Records keep their ids and timestamps, except drafts renamed
+ * to avoid an id conflict (their comments get new ids too). Sessions are untouched. Every
+ * change is worked out first and then written in one batch, so a failed import leaves the
+ * stored drafts as they were.
+ */
+export async function importState(
+  input: unknown,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const { mode = 'merge', onConflict = 'skip', dryRun = false } = options;
+  const archive = parseArchive(input);
+
+  const report: ImportReport = {
+    mode,
+    onConflict,
+    dryRun,
+    removed: 0,
+    imported: [],
+    skipped: [],
+    overwritten: [],
+    renamed: [],
+    comments: 0,
+  };
+
+  const stored = await getDrafts();
+  const storedIds = new Set(stored.map((draft) => draft.id));
+  const batch: StorageBatch = { deleteDrafts: [], drafts: [], comments: [] };
+
+  if (mode === 'replace') {
+    report.removed = stored.length;
+    batch.deleteDrafts.push(...storedIds);
+    storedIds.clear();
+  }
+
+  const commentsByDraft = new Map<string, DraftComment[]>();
+  for (const comment of archive.comments) {
+    const comments = commentsByDraft.get(comment.draftId) ?? [];
+    comments.push(comment);
+    commentsByDraft.set(comment.draftId, comments);
+  }
+
+  for (const draft of archive.drafts) {
+    let comments = commentsByDraft.get(draft.id) ?? [];
+    let record = draft;
+
+    if (!storedIds.has(draft.id)) {
+      report.imported.push(draft.id);
+    } else if (onConflict === 'skip') {
+      report.skipped.push(draft.id);
+      continue;
+    } else if (onConflict === 'overwrite') {
+      report.overwritten.push(draft.id);
+      // The archive's comments replace the stored ones
+      batch.deleteDrafts.push(draft.id);
+    } else {
+      record = { ...draft, id: generateId() };
+      comments = comments.map((comment) => ({ ...comment, id: generateId(), draftId: record.id }));
+      report.renamed.push({ from: draft.id, to: record.id });
+    }
+
+    report.comments += comments.length;
+    batch.drafts.push(record);
+    batch.comments.push(...comments);
+  }
+
+  if (!dryRun) await writeBatch(batch);
+  return report;
+}
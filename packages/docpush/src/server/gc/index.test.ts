@@ -0,0 +1,90 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'fs-extra';
+import { collectGarbage } from '.';
+import { configSchema } from '../../core/config';
+import type { BranchInfo } from '../../core/git';
+import { JsonStorageAdapter, createDraft, getDraft, setStorageAdapter } from '../storage';
+
+const branches: BranchInfo[] = [];
+const deleteBranch = jest.fn(async (_name: string) => {});
+
+jest.mock('../../core/git', () => ({
+  createGitProvider: () => ({
+    listBranches: async () => branches,
+    deleteBranch,
+  }),
+}));
+
+const config = configSchema.parse({
+  github: { owner: 'acme', repo: 'docs', branch: 'main', docsPath: 'docs' },
+  auth: { mode: 'public', adminPassword: 'secret' },
+  admins: { emails: ['admin@example.com'] },
+});
+
+// Old enough to be collected
+const OLD = '2020-01-01T00:00:00Z';
+
+function branch(name: string): BranchInfo {
+  return { name, sha: 'abc123', lastCommitAt: OLD };
+}
+
+function draft(branchName: string, extra: { imported?: boolean; status?: 'pending' } = {}) {
+  return createDraft({
+    docPath: 'guide.md',
+    branchName,
+    title: branchName,
+    authorId: null,
+    authorEmail: null,
+    status: 'pending',
+    ...extra,
+  });
+}
+
+describe('collectGarbage', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docpush-gc-'));
+    setStorageAdapter(new JsonStorageAdapter(dir));
+    branches.length = 0;
+    deleteBranch.mockClear();
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('deletes draft branches with no draft', async () => {
+    branches.push(branch('draft/forgotten'));
+
+    const report = await collectGarbage(config);
+
+    expect(report.orphanBranches).toMatchObject([{ name: 'draft/forgotten', reason: 'untracked' }]);
+    expect(deleteBranch).toHaveBeenCalledWith('draft/forgotten');
+  });
+
+  it("leaves an imported pull request's draft/ branch alone", async () => {
+    const imported = await draft('draft/from-a-pull-request', { imported: true });
+    branches.push(branch('draft/from-a-pull-request'));
+
+    const report = await collectGarbage(config);
+
+    expect(report.orphanBranches).toEqual([]);
+    expect(deleteBranch).not.toHaveBeenCalled();
+    expect((await getDraft(imported.id))?.status).toBe('pending');
+  });
+
+  it('does not reject an imported draft whose branch is gone', async () => {
+    const imported = await draft('draft/deleted-by-its-author', { imported: true });
+    await fs.writeJson(path.join(dir, 'drafts.json'), {
+      ...(await fs.readJson(path.join(dir, 'drafts.json'))),
+      drafts: [{ ...imported, updatedAt: Date.parse(OLD) / 1000 }],
+    });
+
+    const report = await collectGarbage(config);
+
+    expect(report.orphanDrafts).toEqual([]);
+    expect((await getDraft(imported.id))?.status).toBe('pending');
+  });
+});
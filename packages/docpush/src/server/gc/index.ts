@@ -0,0 +1,155 @@
+import type { DocsConfig } from '../../core/config';
+import { createGitProvider } from '../../core/git';
+import { getSources } from '../../core/sources';
+import { type Draft, addComment, getDrafts, updateDraft } from '../storage';
+
+// Every branch DocPush creates for a draft starts with this
+export const DRAFT_BRANCH_PREFIX = 'draft/';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GcOptions {
+  // Report orphans without deleting branches or closing drafts
+  dryRun?: boolean;
+  // Leave anything touched more recently alone (default 7); protects drafts being created
+  olderThanDays?: number;
+}
+
+/**
+ * draft/* branch with no draft still using it
+ */
+export interface OrphanBranch {
+  // Id of the documentation source whose repository has the branch
+  source: string;
+  name: string;
+  sha: string;
+  lastCommitAt: string;
+  // untracked: no draft record; closed: its draft was approved or rejected
+  reason: 'untracked' | 'closed';
+  draftId?: string;
+}
+
+/**
+ * Pending draft whose branch no longer exists
+ */
+export interface OrphanDraft {
+  source: string;
+  id: string;
+  title: string;
+  branchName: string;
+  updatedAt: number;
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  olderThanDays: number;
+  orphanBranches: OrphanBranch[];
+  orphanDrafts: OrphanDraft[];
+  // Branches deleted and drafts rejected (empty on a dry run)
+  deletedBranches: string[];
+  rejectedDrafts: string[];
+  // Branches that could not be deleted, with the error
+  errors: Array<{ source: string; branch: string; error: string }>;
+}
+
+/**
+ * Reconcile draft records against the draft/* branches of every documentation source.
+ * Orphan branches are deleted; pending drafts whose branch is gone are rejected with a
+ * comment (records and their comments are kept). Imported drafts are left alone: their
+ * branches belong to the pull request author, so they are never orphans, and their drafts
+ * are never rejected here.
+ */
+export async function collectGarbage(
+  config: DocsConfig,
+  options: GcOptions = {}
+): Promise<GcReport> {
+  const { dryRun = false, olderThanDays = 7 } = options;
+  const cutoff = Date.now() - olderThanDays * DAY_MS;
+  const sources = getSources(config);
+
+  const drafts = await getDrafts();
+  const report: GcReport = {
+    dryRun,
+    olderThanDays,
+    orphanBranches: [],
+    orphanDrafts: [],
+    deletedBranches: [],
+    rejectedDrafts: [],
+    errors: [],
+  };
+
+  for (const [index, source] of sources.entries()) {
+    const git = createGitProvider(config, source);
+    const branches = await git.listBranches(DRAFT_BRANCH_PREFIX);
+
+    // Drafts recorded without a source belong to the first one
+    const byBranch = new Map<string, Draft>();
+    for (const draft of drafts) {
+      const ours = draft.source === undefined ? index === 0 : draft.source === source.id;
+      if (ours) byBranch.set(draft.branchName, draft);
+    }
+
+    const orphanBranches: OrphanBranch[] = [];
+    for (const branch of branches) {
+      if (Date.parse(branch.lastCommitAt) > cutoff) continue;
+
+      const draft = byBranch.get(branch.name);
+      if (draft?.imported) continue;
+      if (!draft) {
+        orphanBranches.push({ source: source.id, ...branch, reason: 'untracked' });
+      } else if (draft.status === 'approved' || draft.status === 'rejected') {
+        orphanBranches.push({ source: source.id, ...branch, reason: 'closed', draftId: draft.id });
+      }
+    }
+
+    const existing = new Set(branches.map((branch) => branch.name));
+    report.orphanDrafts.push(
+      ...[...byBranch.values()]
+        .filter(
+          (draft) =>
+            !draft.imported &&
+            draft.status === 'pending' &&
+            draft.branchName.startsWith(DRAFT_BRANCH_PREFIX) &&
+            !existing.has(draft.branchName) &&
+            // Storage timestamps are in seconds
+            draft.updatedAt * 1000 <= cutoff
+        )
+        .map(({ id, title, branchName, updatedAt }) => ({
+          source: source.id,
+          id,
+          title,
+          branchName,
+          updatedAt,
+        }))
+    );
+    report.orphanBranches.push(...orphanBranches);
+
+    if (dryRun) continue;
+
+    for (const branch of orphanBranches) {
+      try {
+        await git.deleteBranch(branch.name);
+        report.deletedBranches.push(branch.name);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        report.errors.push({ source: source.id, branch: branch.name, error: message });
+      }
+    }
+  }
+
+  if (dryRun) return report;
+
+  for (const draft of report.orphanDrafts) {
+    await addComment({
+      draftId: draft.id,
+      userId: null,
+      userEmail: null,
+      userName: 'DocPush',
+      content: `Rejected: branch ${draft.branchName} no longer exists`,
+    });
+    await updateDraft(draft.id, { status: 'rejected' });
+    report.rejectedDrafts.push(draft.id);
+  }
+
+  return report;
+}
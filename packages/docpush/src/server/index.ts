@@ -3,11 +3,14 @@ import express from 'express';
 import session from 'express-session';
 import passport from 'passport';
 import { type DocsConfig, loadConfig, validateEnv } from '../core/config';
+import { githubCache, rateLimitTracker } from '../core/github';
 import { setupAuth } from './auth';
 import authRoutes from './routes/auth';
 import docsRoutes from './routes/docs';
 import draftsRoutes from './routes/drafts';
 import mediaRoutes from './routes/media';
+import webhooksRoutes from './routes/webhooks';
+import { createStorageAdapter, migrateStorage, setStorageAdapter } from './storage';
 
 // Extend Express Request
 declare global {
@@ -19,12 +22,21 @@ declare global {
 }
 
 export async function createServer(): Promise<express.Application> {
-  // Validate environment
-  validateEnv();
-
   // Load config
   const config = await loadConfig();
 
+  // Validate environment (required vars depend on git provider and auth mode)
+  validateEnv(config);
+
+  setStorageAdapter(createStorageAdapter(config));
+
+  // Upgrade data written by older versions before serving requests
+  const migration = await migrateStorage();
+  if (migration && migration.migrations.length > 0) {
+    const backup = migration.backupPath ? ` (backup in ${migration.backupPath})` : '';
+    console.log(`📦 Migrated storage from schema v${migration.from} to v${migration.to}${backup}`);
+  }
+
   // Create Express app
   const app = express();
 
@@ -82,6 +94,9 @@ export async function createServer(): Promise<express.Application> {
   // Media routes - Mount BEFORE global body parsers to ensure raw binary handling
   app.use('/api/media', mediaRoutes);
 
+  // Webhooks verify signatures against the raw body, so they also come first
+  app.use('/api/webhooks', webhooksRoutes);
+
   // Global body parsing
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true }));
@@ -99,6 +114,8 @@ export async function createServer(): Promise<express.Application> {
       timestamp: new Date().toISOString(),
       version: '1.0.0',
       authMode: config.auth.mode,
+      cache: config.git.provider === 'github' ? githubCache.getStats() : undefined,
+      rateLimit: config.git.provider === 'github' ? rateLimitTracker.getBudget() : undefined,
     });
   });
 
@@ -116,13 +133,30 @@ export async function createServer(): Promise<express.Application> {
         'POST /api/auth/verify',
         'GET /api/auth/github',
         'GET /api/auth/google',
+        'GET /api/docs/versions',
+        'GET /api/docs/sources',
         'GET /api/docs/tree',
+        'GET /api/docs/redirects',
         'GET /api/docs/content',
+        'GET /api/docs/:path/history',
+        'GET /api/docs/:path/revisions/:sha',
+        'GET /api/docs/:path/diff',
+        'GET /api/docs/:path/blame',
+        'POST /api/docs/:path/revert',
         'GET /api/drafts',
         'POST /api/drafts',
+        'GET /api/drafts/gc',
+        'POST /api/drafts/gc',
+        'POST /api/drafts/import',
+        'GET /api/drafts/archive',
+        'POST /api/drafts/archive',
         'PUT /api/drafts/:id',
+        'POST /api/drafts/:id/sync',
+        'GET /api/drafts/:id/conflicts',
+        'POST /api/drafts/:id/resolve',
         'POST /api/drafts/:id/approve',
         'POST /api/drafts/:id/reject',
+        'POST /api/webhooks/github',
       ],
     });
   });
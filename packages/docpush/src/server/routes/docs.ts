@@ -1,20 +1,191 @@
 import express from 'express';
 import type { DocsConfig } from '../../core/config';
-import { GitHubClient } from '../../core/github';
+import { type DocTreeItem, type GitProvider, createGitProvider } from '../../core/git';
+import { type Redirect, findRedirect, readRedirects } from '../../core/links';
+import { diffLines, formatUnifiedDiff } from '../../core/merge';
+import { type DocSource, getSources, resolveSource, toTreePath } from '../../core/sources';
+import { requireEdit } from '../middleware/auth';
+import { addComment, createDraft } from '../storage';
+import { addEditor, commitAuthorFor, draftBranchName } from './drafts';
 
 const router = express.Router();
 
+// Branch, tag or SHA; no leading dash (would be read as an option) and no ranges
+const REF_PATTERN = /^(?!-)(?!.*\.\.)[\w./-]+$/;
+
+const MAX_PER_PAGE = 100;
+
+/**
+ * Ref to read from: a version prefix (/@v2/...), then ?ref=, then the base branch (undefined)
+ */
+function resolveRef(req: express.Request): { ref?: string; error?: string } {
+  const config = req.config as DocsConfig;
+
+  if (req.params.version) {
+    const version = config.versions.find((v) => v.id === req.params.version);
+    if (!version) {
+      return { error: `Unknown version: ${req.params.version}` };
+    }
+    return { ref: version.ref };
+  }
+
+  const ref = req.query.ref;
+  if (ref === undefined) {
+    return {};
+  }
+  if (typeof ref !== 'string' || !REF_PATTERN.test(ref)) {
+    return { error: 'Invalid ref' };
+  }
+  return { ref };
+}
+
+/**
+ * Parse ?page= and ?perPage= for history (page from 1, at most MAX_PER_PAGE per page)
+ */
+function parsePaging(req: express.Request): { page: number; perPage: number } | null {
+  const page = Number(req.query.page ?? 1);
+  const perPage = Number(req.query.perPage ?? 50);
+
+  if (!Number.isInteger(page) || page < 1) return null;
+  if (!Number.isInteger(perPage) || perPage < 1 || perPage > MAX_PER_PAGE) return null;
+  return { page, perPage };
+}
+
+/**
+ * File content at ref, or '' if the file does not exist there (added or deleted)
+ */
+async function contentAt(git: GitProvider, filePath: string, ref?: string): Promise<string> {
+  try {
+    return await git.getFileContent(filePath, ref);
+  } catch (e: unknown) {
+    const error = e as { status?: number };
+    if (error.status === 404) return '';
+    throw e;
+  }
+}
+
+/**
+ * Docs tree of every source, each under its prefix. Sources without ref are left out,
+ * so a version tag only needs to exist in the repositories it applies to.
+ */
+async function mergedTree(config: DocsConfig, ref?: string): Promise<DocTreeItem[]> {
+  const sources = getSources(config);
+  const tree: DocTreeItem[] = [];
+  let found = false;
+
+  for (const source of sources) {
+    let items: DocTreeItem[];
+    try {
+      items = await createGitProvider(config, source).getDocsTree(ref);
+    } catch (e: unknown) {
+      const error = e as { status?: number };
+      if (ref && sources.length > 1 && error.status === 404) continue;
+      throw e;
+    }
+    found = true;
+
+    // Folders leading to the prefix
+    const parts = source.prefix ? source.prefix.split('/') : [];
+    parts.forEach((_, i) => {
+      const dir = parts.slice(0, i + 1).join('/');
+      if (!tree.some((item) => item.path === dir)) tree.push({ path: dir, type: 'dir' });
+    });
+
+    tree.push(...items.map((item) => ({ ...item, path: toTreePath(source, item.path) })));
+  }
+
+  if (!found) {
+    throw Object.assign(new Error('Ref not found'), { status: 404 });
+  }
+  return tree;
+}
+
+/**
+ * Redirect with both ends as tree paths
+ */
+function treeRedirect(source: DocSource, redirect: Redirect): Redirect {
+  return {
+    ...redirect,
+    from: toTreePath(source, redirect.from),
+    to: redirect.to && toTreePath(source, redirect.to),
+  };
+}
+
+/**
+ * GET /api/docs/sources
+ * List documentation sources and where their docs appear in the tree
+ */
+router.get('/sources', (req, res) => {
+  const config = req.config as DocsConfig;
+
+  res.json({
+    sources: getSources(config).map(({ id, label, prefix, branch }) => ({
+      id,
+      label,
+      prefix,
+      branch,
+    })),
+  });
+});
+
+/**
+ * GET /api/docs/versions
+ * List configured documentation versions
+ */
+router.get('/versions', (req, res) => {
+  const config = req.config as DocsConfig;
+  const defaultVersion = config.versions.find((v) => v.default) || null;
+
+  res.json({
+    versions: config.versions,
+    default: defaultVersion?.id || null,
+    branch: config.github.branch,
+  });
+});
+
 /**
  * GET /api/docs/tree
- * Get file tree of published docs from main branch
+ * GET /api/docs/@:version/tree
+ * Get file tree of published docs from main branch, a version, or ?ref=
  */
-router.get('/tree', async (req, res, next) => {
+router.get(['/tree', '/@:version/tree'], async (req, res, next) => {
   try {
     const config = req.config as DocsConfig;
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
+    const { ref, error } = resolveRef(req);
+    if (error) {
+      return res.status(req.params.version ? 404 : 400).json({ error });
+    }
+
+    const tree = await mergedTree(config, ref);
+    res.json({ tree, ref: ref || config.github.branch });
+  } catch (error: unknown) {
+    const err = error as { status?: number };
+    if (err.status === 404) {
+      return res.status(404).json({ error: 'Ref not found' });
+    }
+    next(error);
+  }
+});
 
-    const tree = await github.getDocsTree();
-    res.json({ tree });
+/**
+ * GET /api/docs/redirects
+ * GET /api/docs/@:version/redirects
+ * Redirects left by renamed, moved and deleted docs
+ */
+router.get(['/redirects', '/@:version/redirects'], async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const { ref, error } = resolveRef(req);
+    if (error) {
+      return res.status(req.params.version ? 404 : 400).json({ error });
+    }
+
+    const redirects: Redirect[] = [];
+    for (const source of getSources(config)) {
+      const sourceRedirects = await readRedirects(createGitProvider(config, source), ref);
+      redirects.push(...sourceRedirects.map((redirect) => treeRedirect(source, redirect)));
+    }
+    res.json({ redirects });
   } catch (error) {
     next(error);
   }
@@ -22,30 +193,130 @@ router.get('/tree', async (req, res, next) => {
 
 /**
  * GET /api/docs/*
- * Get content of a specific doc file
- * Also supports /api/docs/path/to/file.md/history for commit history
+ * GET /api/docs/@:version/*
+ * Get content of a specific doc file (from main branch, a version, or ?ref=)
+ * Also supports suffixes on the doc path:
+ *   /history?page=&perPage=          commit history, newest first
+ *   /revisions/:sha                  content at a commit
+ *   /diff?from=&to=&format=          diff between two revisions (to defaults to the ref)
+ *   /blame                           last commit to change each line
+ * Renamed and moved docs redirect (301) to their new path; deleted docs answer 410
  */
-router.get('/:path(*)', async (req, res, next) => {
+router.get(['/@:version/:path(*)', '/:path(*)'], async (req, res, next) => {
   try {
     const config = req.config as DocsConfig;
-    const fullPath = req.params.path;
+    const { ref, error } = resolveRef(req);
+    if (error) {
+      return res.status(req.params.version ? 404 : 400).json({ error });
+    }
+
+    // Paths below are relative to the source; responses use tree paths
+    const resolved = resolveSource(config, req.params.path);
+    if (!resolved) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    const { source, path: filePath } = resolved;
+    const git = createGitProvider(config, source);
 
     // Check if requesting history
-    if (fullPath.endsWith('/history')) {
-      const docPath = fullPath.replace(/\/history$/, '');
-      const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-      const history = await github.getFileHistory(docPath);
-      return res.json({ history });
+    if (filePath.endsWith('/history')) {
+      const docPath = filePath.replace(/\/history$/, '');
+      const paging = parsePaging(req);
+      if (!paging) {
+        return res
+          .status(400)
+          .json({ error: `page must be >= 1 and perPage between 1 and ${MAX_PER_PAGE}` });
+      }
+
+      const history = await git.getFileHistory(docPath, { ref, ...paging });
+      return res.json({ history, ...paging, hasMore: history.length === paging.perPage });
+    }
+
+    // The doc path keeps its extension, so docs inside a "revisions" folder still resolve
+    const revision = filePath.match(/^(.+\.\w+)\/revisions\/([^/]+)$/);
+    if (revision) {
+      const [, docPath, sha] = revision;
+      if (!REF_PATTERN.test(sha)) {
+        return res.status(400).json({ error: 'Invalid revision' });
+      }
+
+      const content = await git.getFileContent(docPath, sha);
+      return res.json({ path: toTreePath(source, docPath), content, ref: sha });
+    }
+
+    if (filePath.endsWith('/diff')) {
+      const docPath = filePath.replace(/\/diff$/, '');
+      const { from, to, format = 'structured' } = req.query;
+
+      if (typeof from !== 'string' || !REF_PATTERN.test(from)) {
+        return res.status(400).json({ error: 'from must be a valid revision' });
+      }
+      if (to !== undefined && (typeof to !== 'string' || !REF_PATTERN.test(to))) {
+        return res.status(400).json({ error: 'to must be a valid revision' });
+      }
+      if (format !== 'structured' && format !== 'unified') {
+        return res.status(400).json({ error: 'format must be "structured" or "unified"' });
+      }
+
+      const toRef = (to as string | undefined) || ref;
+      const [oldContent, newContent] = await Promise.all([
+        contentAt(git, docPath, from),
+        contentAt(git, docPath, toRef),
+      ]);
+
+      const hunks = diffLines(oldContent, newContent);
+      const toLabel = toRef || source.branch;
+      const treePath = toTreePath(source, docPath);
+
+      return res.json({
+        path: treePath,
+        from,
+        to: toLabel,
+        ...(format === 'unified'
+          ? { diff: formatUnifiedDiff(hunks, `${treePath}@${from}`, `${treePath}@${toLabel}`) }
+          : { hunks }),
+      });
+    }
+
+    if (filePath.endsWith('/blame')) {
+      const docPath = filePath.replace(/\/blame$/, '');
+      if (!git.getFileBlame) {
+        return res.status(501).json({ error: 'Blame is not supported by this git provider' });
+      }
+
+      const blame = await git.getFileBlame(docPath, ref);
+      return res.json({ path: toTreePath(source, docPath), ref: ref || source.branch, blame });
     }
 
     // Get file content
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-    const content = await github.getFileContent(fullPath);
+    let content: string;
+    try {
+      content = await git.getFileContent(filePath, ref);
+    } catch (e: unknown) {
+      const err = e as { status?: number };
+      const redirect =
+        err.status === 404 ? findRedirect(await readRedirects(git, ref), filePath) : undefined;
+      if (!redirect) throw e;
+
+      // Renamed or moved: same route (version, ?ref=) at the new path
+      if (redirect.to) {
+        const prefix = req.params.version ? `@${req.params.version}/` : '';
+        const query = req.originalUrl.includes('?')
+          ? req.originalUrl.slice(req.originalUrl.indexOf('?'))
+          : '';
+        const to = toTreePath(source, redirect.to);
+        return res.redirect(301, `${req.baseUrl}/${prefix}${encodeURI(to)}${query}`);
+      }
+      return res
+        .status(410)
+        .json({ error: 'Document was deleted', redirect: treeRedirect(source, redirect) });
+    }
 
     // Parse frontmatter if needed (using gray-matter would be added here)
     res.json({
-      path: fullPath,
+      path: req.params.path,
       content,
+      ref: ref || source.branch,
     });
   } catch (error: unknown) {
     const err = error as { status?: number };
@@ -56,4 +327,81 @@ router.get('/:path(*)', async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/docs/:path/revert
+ * Restore a doc as of an earlier commit, as a new draft for the usual review and approval
+ * Body: { sha, reason? }
+ */
+router.post('/:path(*)/revert', requireEdit, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const docPath = req.params.path;
+    const { sha, reason } = req.body;
+
+    if (typeof sha !== 'string' || !REF_PATTERN.test(sha)) {
+      return res.status(400).json({ error: 'sha must be a valid revision' });
+    }
+
+    const resolved = resolveSource(config, docPath);
+    if (!resolved) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    const { source, path: filePath } = resolved;
+    const git = createGitProvider(config, source);
+
+    let content: string;
+    try {
+      content = await git.getFileContent(filePath, sha);
+    } catch (e: unknown) {
+      const err = e as { status?: number };
+      if (err.status === 404) {
+        return res.status(404).json({ error: `Document not found at ${sha}` });
+      }
+      throw e;
+    }
+
+    if (content === (await contentAt(git, filePath))) {
+      return res.status(400).json({ error: `Document already matches ${sha}` });
+    }
+
+    const shortSha = sha.slice(0, 7);
+    const title = `Revert ${docPath} to ${shortSha}`;
+    const branchName = draftBranchName(docPath);
+    const baseSha = await git.createDraftBranch(branchName);
+
+    const author = commitAuthorFor(req.user, config);
+    await git.commitFile(branchName, filePath, content, title, { author });
+
+    const user = req.user as { id?: string; email?: string; name?: string } | undefined;
+
+    const draft = await createDraft({
+      docPath,
+      branchName,
+      title,
+      authorId: user?.id || null,
+      authorEmail: user?.email || null,
+      status: 'pending',
+      editors: addEditor([], author),
+      baseSha,
+      source: source.id,
+    });
+
+    // Reviewers see where the content came from alongside the rest of the discussion
+    await addComment({
+      draftId: draft.id,
+      userId: user?.id || null,
+      userEmail: user?.email || null,
+      userName: user?.name || 'Anonymous',
+      content:
+        typeof reason === 'string' && reason.trim()
+          ? `Reverted to ${sha}: ${reason.trim()}`
+          : `Reverted to ${sha}`,
+    });
+
+    res.status(201).json({ draft });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,28 +1,282 @@
 import { randomUUID } from 'node:crypto';
+import path from 'node:path';
 import express from 'express';
 import type { DocsConfig } from '../../core/config';
-import { GitHubClient } from '../../core/github';
+import { BranchMovedError, StorageVersionError, ValidationError } from '../../core/errors';
+import {
+  type CommitAuthor,
+  type CommitOptions,
+  type FileChange,
+  type GitProvider,
+  appendCoAuthors,
+  createGitProvider,
+} from '../../core/git';
+import {
+  REDIRECTS_FILE,
+  addRedirect,
+  linksTo,
+  readRedirects,
+  rewriteLinks,
+  serializeRedirects,
+} from '../../core/links';
+import { diff3Merge, hasConflicts } from '../../core/merge';
+import {
+  type DocSource,
+  fromTreePath,
+  getSource,
+  getSources,
+  resolveSource,
+  toTreePath,
+} from '../../core/sources';
+import {
+  CONFLICT_STRATEGIES,
+  type ConflictStrategy,
+  IMPORT_MODES,
+  type ImportMode,
+  exportState,
+  importState,
+} from '../archive';
+import { DRAFT_BRANCH_PREFIX, collectGarbage } from '../gc';
 import { requireAdmin, requireEdit } from '../middleware/auth';
 import {
+  type DocOperation,
+  type Draft,
+  type LinkUpdate,
   addComment,
   createDraft,
   deleteDraft,
+  findDrafts,
   getComments,
   getDraft,
-  getDrafts,
   updateDraft,
 } from '../storage';
 
 const router = express.Router();
 
+const DOC_OPERATIONS: DocOperation[] = ['rename', 'move', 'delete'];
+
+// Relative .md path without . or .. segments
+const DOC_PATH_PATTERN = /^(?!\/)(?!(?:.*\/)?\.\.?(?:\/|$))[^\0]+\.md$/;
+
+/**
+ * Path that stays inside the docs folder: relative, already normalized, with no empty, . or
+ * .. segments, nothing under .git, and no NUL bytes or backslashes
+ */
+function isSafePath(filePath: unknown): filePath is string {
+  if (typeof filePath !== 'string' || /[\0\\]/.test(filePath)) return false;
+  if (filePath.startsWith('/') || path.posix.normalize(filePath) !== filePath) return false;
+  return filePath
+    .split('/')
+    .every(
+      (segment) =>
+        segment !== '' && segment !== '.' && segment !== '..' && segment.toLowerCase() !== '.git'
+    );
+}
+
+interface DraftFileInput {
+  path?: string;
+  content?: string;
+  encoding?: 'utf-8' | 'base64';
+  delete?: boolean;
+}
+
+/**
+ * Commit author for the current editor, or undefined to commit as the service identity
+ */
+export function commitAuthorFor(
+  user: Express.User | undefined,
+  config: DocsConfig
+): CommitAuthor | undefined {
+  if (!config.commits.recordAuthor) return undefined;
+
+  if (user?.email) {
+    return { name: user.name || user.email, email: user.email };
+  }
+
+  // Anonymous editors (public mode)
+  return config.commits.anonymousAuthor;
+}
+
+/**
+ * Add an editor to the draft's editor list if not already present
+ */
+export function addEditor(
+  editors: CommitAuthor[],
+  author: CommitAuthor | undefined
+): CommitAuthor[] {
+  if (!author || editors.some((e) => e.email === author.email)) return editors;
+  return [...editors, author];
+}
+
+/**
+ * Branch for a new draft of docPath
+ */
+export function draftBranchName(docPath: string): string {
+  return `${DRAFT_BRANCH_PREFIX}${randomUUID().slice(0, 8)}-${docPath.replace(/[^a-z0-9]/gi, '-')}`;
+}
+
+/**
+ * Fill {placeholders} in a PR title/body template; unknown placeholders are left as-is
+ */
+function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => vars[key] ?? match);
+}
+
+/**
+ * Pick up a merge or close of an in-review draft's PR on the git host
+ */
+async function refreshReviewStatus(draft: Draft, git: GitProvider): Promise<Draft> {
+  if (draft.status !== 'in-review' || !draft.prNumber) return draft;
+
+  const pr = await git.getPullRequest(draft.prNumber);
+  if (pr.state === 'open') return draft;
+
+  const updated = await updateDraft(draft.id, {
+    status: pr.state === 'merged' ? 'approved' : 'rejected',
+  });
+  return updated || draft;
+}
+
+/**
+ * File content at ref, or null if the file does not exist there
+ */
+async function readIfExists(
+  git: GitProvider,
+  filePath: string,
+  ref: string
+): Promise<string | null> {
+  try {
+    return await git.getFileContent(filePath, ref);
+  } catch (e: unknown) {
+    const error = e as { status?: number };
+    if (error.status === 404) return null;
+    throw e;
+  }
+}
+
+/**
+ * File content at ref, or empty if the file does not exist there
+ */
+async function contentAt(git: GitProvider, filePath: string, ref: string): Promise<string> {
+  return (await readIfExists(git, filePath, ref)) ?? '';
+}
+
+/**
+ * Parse a GC age threshold in days (undefined keeps the default, null if invalid)
+ */
+function parseDays(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0 ? days : null;
+}
+
+/**
+ * Git provider for the draft's source, and the draft with its doc paths relative to that
+ * source, as the provider expects them
+ */
+export function openDraft(
+  config: DocsConfig,
+  draft: Draft
+): { git: GitProvider; source: DocSource; local: Draft } {
+  const source = getSource(config, draft.source);
+  if (!source) {
+    throw new Error(`Draft ${draft.id} belongs to unknown source ${draft.source}`);
+  }
+
+  return {
+    git: createGitProvider(config, source),
+    source,
+    local: {
+      ...draft,
+      docPath: fromTreePath(source, draft.docPath),
+      ...(draft.newPath && { newPath: fromTreePath(source, draft.newPath) }),
+    },
+  };
+}
+
+/**
+ * Where the draft's version of the doc lives on its branch
+ */
+function draftFilePath(draft: Draft): string {
+  return draft.newPath || draft.docPath;
+}
+
+/**
+ * Get a rename, move or delete draft ready to publish: point relative links in other docs
+ * (and the moved doc's own links and images) at the new location, and record a redirect,
+ * in one commit on the draft branch. Other docs and the redirects are read from the base
+ * branch, so docs published since the draft branched are relinked too. Deleted docs can't
+ * be relinked, so docs still linking to them are reported instead. The draft's paths are
+ * relative to source; the reported docs are tree paths.
+ */
+async function publishOperation(
+  git: GitProvider,
+  source: DocSource,
+  draft: Draft,
+  options: CommitOptions
+): Promise<LinkUpdate> {
+  const from = draft.docPath;
+  const to = draft.newPath ?? null;
+  const map = (linked: string) => (linked === from && to ? to : undefined);
+
+  const changes: FileChange[] = [];
+  const rewritten: string[] = [];
+  const brokenLinks: string[] = [];
+
+  const tree = await git.getDocsTree(source.branch);
+  const docPaths = tree
+    .filter((item) => item.type === 'file' && item.path !== from && item.path !== to)
+    .map((item) => item.path);
+  // The moved doc only exists at its new path on the draft branch
+  if (to) docPaths.push(to);
+
+  for (const docPath of docPaths) {
+    const content = await git.getFileContent(
+      docPath,
+      docPath === to ? draft.branchName : source.branch
+    );
+
+    if (!to) {
+      if (linksTo(content, docPath, from)) brokenLinks.push(toTreePath(source, docPath));
+      continue;
+    }
+
+    // The moved doc's links were written relative to its old location
+    const updated = rewriteLinks(content, docPath === to ? from : docPath, docPath, map);
+    if (updated !== content) {
+      changes.push({ path: docPath, content: updated });
+      rewritten.push(toTreePath(source, docPath));
+    }
+  }
+
+  const redirects = await readRedirects(git, source.branch);
+  changes.push({
+    path: REDIRECTS_FILE,
+    content: serializeRedirects(addRedirect(redirects, from, to)),
+  });
+
+  await git.commitFiles(draft.branchName, changes, `Update links for: ${draft.title}`, options);
+
+  return { rewritten, brokenLinks };
+}
+
+function operationTitle(operation: DocOperation, docPath: string, newPath?: string): string {
+  if (operation === 'delete') return `Delete ${docPath}`;
+  return `${operation === 'rename' ? 'Rename' : 'Move'} ${docPath} to ${newPath}`;
+}
+
 /**
  * GET /api/drafts
- * List all drafts (optionally filtered by status)
+ * List all drafts (optionally filtered by status, author email and doc path)
  */
 router.get('/', requireEdit, async (req, res, next) => {
   try {
-    const status = req.query.status as string | undefined;
-    const drafts = await getDrafts(status);
+    const { status, author, docPath } = req.query as Record<string, string | undefined>;
+    const drafts = await findDrafts({
+      status: (status || undefined) as Draft['status'] | undefined,
+      authorEmail: author || undefined,
+      docPath: docPath || undefined,
+    });
     res.json({ drafts });
   } catch (error) {
     next(error);
@@ -32,28 +286,81 @@ router.get('/', requireEdit, async (req, res, next) => {
 /**
  * POST /api/drafts
  * Create a new draft (creates Git branch)
+ * With `operation` ('rename' | 'move' | 'delete'), the draft renames, moves or deletes
+ * docPath instead (`newPath` is required for rename and move; title is optional)
  */
 router.post('/', requireEdit, async (req, res, next) => {
   try {
     const config = req.config as DocsConfig;
-    const { docPath, title, content } = req.body;
+    const { docPath, content, operation, newPath } = req.body;
 
+    if (operation !== undefined && !DOC_OPERATIONS.includes(operation)) {
+      return res
+        .status(400)
+        .json({ error: `operation must be one of ${DOC_OPERATIONS.join(', ')}` });
+    }
+
+    const title = req.body.title || (operation && operationTitle(operation, docPath, newPath));
     if (!docPath || !title) {
       return res.status(400).json({ error: 'docPath and title are required' });
     }
 
-    // Generate branch name
-    const branchName = `draft/${randomUUID().slice(0, 8)}-${docPath.replace(/[^a-z0-9]/gi, '-')}`;
+    if (!isSafePath(docPath) || !DOC_PATH_PATTERN.test(docPath)) {
+      return res.status(400).json({ error: 'docPath must be a relative .md path' });
+    }
 
-    // Create GitHub client
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
+    if (operation === 'rename' || operation === 'move') {
+      if (!isSafePath(newPath) || !DOC_PATH_PATTERN.test(newPath) || newPath === docPath) {
+        return res.status(400).json({ error: 'newPath must be a different .md path' });
+      }
+      if (operation === 'rename' && path.posix.dirname(newPath) !== path.posix.dirname(docPath)) {
+        return res.status(400).json({ error: 'rename keeps the doc in its folder, use move' });
+      }
+    }
 
-    // Create branch on GitHub
-    await github.createDraftBranch(branchName);
+    const resolved = resolveSource(config, docPath);
+    if (!resolved) {
+      return res.status(400).json({ error: 'docPath is not in any documentation source' });
+    }
+    const { source, path: filePath } = resolved;
 
-    // If content provided, commit it
-    if (content) {
-      await github.commitFile(branchName, docPath, content, `Draft: ${title}`);
+    // Docs can't move between repositories
+    const newFilePath = newPath && fromTreePath(source, newPath);
+    if (newPath && resolveSource(config, newPath)?.source.id !== source.id) {
+      return res.status(400).json({ error: 'newPath must be in the same source as docPath' });
+    }
+
+    // Create git provider
+    const git = createGitProvider(config, source);
+
+    let operationChanges: FileChange[] = [];
+    if (operation) {
+      const current = await readIfExists(git, filePath, source.branch);
+      if (current === null) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      operationChanges = [{ path: filePath, content: null }];
+      if (operation !== 'delete') {
+        if ((await readIfExists(git, newFilePath, source.branch)) !== null) {
+          return res.status(409).json({ error: `${newPath} already exists` });
+        }
+        operationChanges.push({ path: newFilePath, content: current });
+      }
+    }
+
+    // Generate branch name
+    const branchName = draftBranchName(docPath);
+
+    // Create branch
+    const baseSha = await git.createDraftBranch(branchName);
+
+    // If content provided, commit it as the editor
+    const author = commitAuthorFor(req.user, config);
+    if (operation) {
+      await git.commitFiles(branchName, operationChanges, title, { author });
+    } else if (content) {
+      await git.commitFile(branchName, filePath, content, `Draft: ${title}`, { author });
     }
 
     // Get user info from session
@@ -67,6 +374,11 @@ router.post('/', requireEdit, async (req, res, next) => {
       authorId: user?.id || null,
       authorEmail: user?.email || null,
       status: 'pending',
+      editors: content || operation ? addEditor([], author) : [],
+      baseSha,
+      source: source.id,
+      ...(operation && { operation }),
+      ...(operation && operation !== 'delete' && { newPath }),
     });
 
     res.status(201).json({ draft });
@@ -75,6 +387,158 @@ router.post('/', requireEdit, async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/drafts/import
+ * Create drafts for open pull requests that change docs (PRs opened outside DocPush)
+ */
+router.post('/import', requireAdmin, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const imported: Draft[] = [];
+    const skipped: Array<{ prNumber: number; reason: string; docPath?: string }> = [];
+    const drafts = await findDrafts({});
+
+    for (const source of getSources(config)) {
+      const pulls = await createGitProvider(config, source).listOpenPullRequests();
+      // PR numbers and branch names are only unique within one source's repository
+      const tracked = drafts.filter((d) => getSource(config, d.source)?.id === source.id);
+
+      for (const pr of pulls) {
+        const docs = pr.files.filter((file) => file.endsWith('.md'));
+        if (docs.length === 0) {
+          skipped.push({ prNumber: pr.number, reason: 'no docs changed' });
+          continue;
+        }
+
+        const existing = tracked.find(
+          (d) => d.prNumber === pr.number || d.branchName === pr.branch
+        );
+        if (existing) {
+          skipped.push({ prNumber: pr.number, reason: 'already a draft' });
+          continue;
+        }
+
+        // Drafts edit a single doc; a PR touching several is tracked by its first one
+        const [filePath, ...untracked] = docs;
+        for (const extra of untracked) {
+          skipped.push({
+            prNumber: pr.number,
+            reason: `tracked by ${toTreePath(source, filePath)}`,
+            docPath: toTreePath(source, extra),
+          });
+        }
+
+        const draft = await createDraft({
+          docPath: toTreePath(source, filePath),
+          branchName: pr.branch,
+          title: pr.title,
+          authorId: null,
+          authorEmail: null,
+          status: 'pending',
+          prNumber: pr.number,
+          prUrl: pr.url,
+          imported: true,
+          source: source.id,
+        });
+        imported.push(draft);
+      }
+    }
+
+    res.json({ imported, skipped });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/drafts/gc
+ * Report orphaned draft branches and drafts whose branch is gone, without changing anything
+ * Query: ?olderThanDays= (default 7)
+ */
+router.get('/gc', requireAdmin, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const olderThanDays = parseDays(req.query.olderThanDays);
+    if (olderThanDays === null) {
+      return res.status(400).json({ error: 'olderThanDays must be a non-negative number' });
+    }
+
+    const report = await collectGarbage(config, { dryRun: true, olderThanDays });
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/drafts/gc
+ * Delete orphaned draft branches and reject drafts whose branch is gone
+ * Body: { olderThanDays?, dryRun? }
+ */
+router.post('/gc', requireAdmin, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const olderThanDays = parseDays(req.body.olderThanDays);
+    if (olderThanDays === null) {
+      return res.status(400).json({ error: 'olderThanDays must be a non-negative number' });
+    }
+
+    const report = await collectGarbage(config, {
+      dryRun: req.body.dryRun === true,
+      olderThanDays,
+    });
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/drafts/archive
+ * Export every draft and comment as a portable archive (sessions are left out)
+ */
+router.get('/archive', requireAdmin, async (req, res, next) => {
+  try {
+    res.json(await exportState());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/drafts/archive
+ * Import an archive from GET /api/drafts/archive
+ * Query: ?mode=merge|replace (default merge), ?onConflict=skip|overwrite|rename (default skip),
+ * ?dryRun=true
+ * Body: the archive
+ */
+router.post('/archive', requireAdmin, async (req, res, next) => {
+  try {
+    const mode = (req.query.mode ?? 'merge') as ImportMode;
+    const onConflict = (req.query.onConflict ?? 'skip') as ConflictStrategy;
+    if (!IMPORT_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of ${IMPORT_MODES.join(', ')}` });
+    }
+    if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+      return res
+        .status(400)
+        .json({ error: `onConflict must be one of ${CONFLICT_STRATEGIES.join(', ')}` });
+    }
+
+    const report = await importState(req.body, {
+      mode,
+      onConflict,
+      dryRun: req.query.dryRun === 'true',
+    });
+    res.json(report);
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof StorageVersionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    next(error);
+  }
+});
+
 /**
  * GET /api/drafts/:id
  * Get draft details including content from Git branch
@@ -82,25 +546,42 @@ router.post('/', requireEdit, async (req, res, next) => {
 router.get('/:id', requireEdit, async (req, res, next) => {
   try {
     const config = req.config as DocsConfig;
-    const draft = await getDraft(req.params.id);
+    let draft = await getDraft(req.params.id);
 
     if (!draft) {
       return res.status(404).json({ error: 'Draft not found' });
     }
 
+    const { git, local } = openDraft(config, draft);
+
+    try {
+      draft = await refreshReviewStatus(draft, git);
+    } catch {
+      // Keep the stored status if the git host can't be reached
+    }
+
     // Get content from Git branch
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
     let content = '';
     try {
-      content = await github.getFileContent(draft.docPath, draft.branchName);
+      content = await git.getFileContent(draftFilePath(local), draft.branchName);
     } catch {
-      // File might not exist yet in draft
+      // File might not exist yet in draft (or is being deleted)
     }
 
     // Get comments
     const comments = await getComments(draft.id);
 
-    res.json({ draft, content, comments });
+    // How far the draft lags the base branch (null when the provider can't tell)
+    let sync = null;
+    if (draft.status === 'pending' && git.getBranchStatus) {
+      try {
+        sync = await git.getBranchStatus(draft.branchName);
+      } catch {
+        // Branch might have been deleted
+      }
+    }
+
+    res.json({ draft, content, comments, sync });
   } catch (error) {
     next(error);
   }
@@ -109,16 +590,42 @@ router.get('/:id', requireEdit, async (req, res, next) => {
 /**
  * PUT /api/drafts/:id
  * Update draft content (commits to Git branch)
+ * Optional `files` land in the same commit: [{ path, content, encoding?: 'base64' }]
+ * or [{ path, delete: true }], with paths relative to the docsPath of the draft's source
  */
 router.put('/:id', requireEdit, async (req, res, next) => {
   try {
     const config = req.config as DocsConfig;
-    const { content, message } = req.body;
+    const { content, message, files = [] } = req.body;
 
     if (!content) {
       return res.status(400).json({ error: 'content is required' });
     }
 
+    if (!Array.isArray(files)) {
+      return res.status(400).json({ error: 'files must be an array' });
+    }
+
+    const extraChanges: FileChange[] = [];
+    for (const file of files as DraftFileInput[]) {
+      if (!file?.path || (!file.delete && typeof file.content !== 'string')) {
+        return res.status(400).json({ error: 'each file needs a path and content or delete' });
+      }
+      if (!isSafePath(file.path)) {
+        return res
+          .status(400)
+          .json({ error: `file path must stay inside the docs folder: ${file.path}` });
+      }
+      extraChanges.push({
+        path: file.path,
+        content: file.delete
+          ? null
+          : file.encoding === 'base64'
+            ? Buffer.from(file.content as string, 'base64')
+            : (file.content as string),
+      });
+    }
+
     const draft = await getDraft(req.params.id);
     if (!draft) {
       return res.status(404).json({ error: 'Draft not found' });
@@ -128,20 +635,223 @@ router.put('/:id', requireEdit, async (req, res, next) => {
       return res.status(400).json({ error: 'Cannot edit non-pending draft' });
     }
 
-    // Commit to Git branch
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-    await github.commitFile(
+    if (draft.operation === 'delete') {
+      return res.status(400).json({ error: 'Cannot edit a delete draft' });
+    }
+
+    // Earlier editors of the draft become co-authors
+    const author = commitAuthorFor(req.user, config);
+    const editors = draft.editors || [];
+    const coAuthors = editors.filter((e) => e.email !== author?.email);
+
+    // Commit doc and any extra files to Git branch as one commit
+    const { git, local } = openDraft(config, draft);
+    await git.commitFiles(
       draft.branchName,
-      draft.docPath,
-      content,
-      message || `Update: ${draft.title}`
+      [{ path: draftFilePath(local), content }, ...extraChanges],
+      appendCoAuthors(message || `Update: ${draft.title}`, coAuthors),
+      { author }
+    );
+
+    // Update timestamp and editors
+    const updatedDraft = await updateDraft(draft.id, { editors: addEditor(editors, author) });
+
+    res.json({ draft: updatedDraft });
+  } catch (error) {
+    if (error instanceof BranchMovedError) {
+      return res.status(409).json({ error: 'Draft was updated elsewhere, reload and try again' });
+    }
+    next(error);
+  }
+});
+
+/**
+ * POST /api/drafts/:id/sync
+ * Bring base branch changes into the draft branch
+ * Body: { strategy?: 'merge' | 'rebase' } (default merge)
+ */
+router.post('/:id/sync', requireEdit, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const { strategy = 'merge' } = req.body;
+
+    if (strategy !== 'merge' && strategy !== 'rebase') {
+      return res.status(400).json({ error: "strategy must be 'merge' or 'rebase'" });
+    }
+
+    const draft = await getDraft(req.params.id);
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+
+    if (draft.status !== 'pending') {
+      return res.status(400).json({ error: 'Cannot sync non-pending draft' });
+    }
+
+    const { git, source } = openDraft(config, draft);
+    if (!git.syncBranch) {
+      return res
+        .status(501)
+        .json({ error: 'Syncing drafts is not supported by this git provider' });
+    }
+
+    const result = await git.syncBranch(
+      draft.branchName,
+      strategy,
+      `Sync with ${source.branch}: ${draft.title}`
+    );
+
+    if (result.status === 'conflict') {
+      return res.status(409).json({
+        error: 'Draft conflicts with the base branch',
+        conflictingFiles: result.conflictingFiles,
+      });
+    }
+
+    const updatedDraft = await updateDraft(draft.id, {
+      baseSha: result.baseSha,
+      stale: result.status === 'synced' ? false : draft.stale,
+    });
+
+    res.json({ draft: updatedDraft, result });
+  } catch (error) {
+    if (error instanceof BranchMovedError) {
+      return res.status(409).json({ error: 'Draft was updated elsewhere, reload and try again' });
+    }
+    next(error);
+  }
+});
+
+/**
+ * GET /api/drafts/:id/conflicts
+ * Base, draft and current versions of the draft's doc with three-way merge hunks
+ */
+router.get('/:id/conflicts', requireEdit, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const draft = await getDraft(req.params.id);
+
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+
+    if (draft.operation === 'delete') {
+      return res.status(400).json({ error: 'Delete drafts have no content to merge' });
+    }
+
+    const { git, source, local } = openDraft(config, draft);
+    const status = git.getBranchStatus ? await git.getBranchStatus(draft.branchName) : null;
+
+    // Prefer the real merge base; fall back to the commit the draft was created from
+    const baseRef = status?.mergeBaseSha || draft.baseSha;
+    if (!baseRef) {
+      return res.status(400).json({ error: 'Draft has no recorded base commit' });
+    }
+    const currentRef = status?.baseSha || source.branch;
+
+    const [base, draftContent, current] = await Promise.all([
+      contentAt(git, local.docPath, baseRef),
+      contentAt(git, draftFilePath(local), draft.branchName),
+      contentAt(git, local.docPath, currentRef),
+    ]);
+
+    const hunks = diff3Merge(base, draftContent, current);
+
+    res.json({
+      docPath: draft.docPath,
+      versions: { base, draft: draftContent, current },
+      hunks,
+      hasConflicts: hasConflicts(hunks),
+      baseSha: currentRef,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/drafts/:id/resolve
+ * Commit the resolved doc to the draft branch. Where the provider supports syncing, the
+ * resolution is committed as part of bringing in the base branch, so the draft is no
+ * longer behind. Body: { content, message?, strategy?: 'merge' | 'rebase' }
+ */
+router.post('/:id/resolve', requireEdit, async (req, res, next) => {
+  try {
+    const config = req.config as DocsConfig;
+    const { content, message, strategy = 'merge' } = req.body;
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({ error: 'content is required' });
+    }
+
+    if (strategy !== 'merge' && strategy !== 'rebase') {
+      return res.status(400).json({ error: "strategy must be 'merge' or 'rebase'" });
+    }
+
+    const draft = await getDraft(req.params.id);
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+
+    if (draft.status !== 'pending') {
+      return res.status(400).json({ error: 'Cannot edit non-pending draft' });
+    }
+
+    if (draft.operation === 'delete') {
+      return res.status(400).json({ error: 'Delete drafts have no content to merge' });
+    }
+
+    const author = commitAuthorFor(req.user, config);
+    const editors = draft.editors || [];
+    const coAuthors = editors.filter((e) => e.email !== author?.email);
+    const commitMessage = appendCoAuthors(
+      message || `Resolve conflicts: ${draft.title}`,
+      coAuthors
     );
 
-    // Update timestamp
-    const updatedDraft = await updateDraft(draft.id, {});
+    const { git, local } = openDraft(config, draft);
+    const resolution: FileChange = { path: draftFilePath(local), content };
+    // A moved doc conflicts on its old path, which stays deleted
+    const resolutions: FileChange[] = local.newPath
+      ? [{ path: local.docPath, content: null }, resolution]
+      : [resolution];
+
+    let baseSha = draft.baseSha;
+
+    const result = git.syncBranch
+      ? await git.syncBranch(draft.branchName, strategy, commitMessage, {
+          author,
+          resolutions,
+        })
+      : null;
+
+    if (result?.status === 'conflict') {
+      return res.status(409).json({
+        error: 'Draft has other conflicting files',
+        conflictingFiles: result.conflictingFiles,
+      });
+    }
+
+    let stale = draft.stale;
+    if (result?.status === 'synced') {
+      baseSha = result.baseSha;
+      stale = false;
+    } else {
+      // Nothing to bring in (or no sync support): a regular commit on the draft
+      await git.commitFiles(draft.branchName, [resolution], commitMessage, { author });
+    }
+
+    const updatedDraft = await updateDraft(draft.id, {
+      baseSha,
+      stale,
+      editors: addEditor(editors, author),
+    });
 
     res.json({ draft: updatedDraft });
   } catch (error) {
+    if (error instanceof BranchMovedError) {
+      return res.status(409).json({ error: 'Draft was updated elsewhere, reload and try again' });
+    }
     next(error);
   }
 });
@@ -159,12 +869,14 @@ router.delete('/:id', requireEdit, async (req, res, next) => {
       return res.status(404).json({ error: 'Draft not found' });
     }
 
-    // Delete Git branch
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-    try {
-      await github.deleteBranch(draft.branchName);
-    } catch {
-      // Branch might already be deleted
+    // Delete Git branch (imported drafts leave the PR author's branch alone)
+    const { git } = openDraft(config, draft);
+    if (!draft.imported) {
+      try {
+        await git.deleteBranch(draft.branchName);
+      } catch {
+        // Branch might already be deleted
+      }
     }
 
     // Delete from storage
@@ -178,7 +890,8 @@ router.delete('/:id', requireEdit, async (req, res, next) => {
 
 /**
  * POST /api/drafts/:id/approve
- * Approve draft (creates PR, merges, deletes branch)
+ * Approve draft: creates PR (unless imported from one), then per publishing.mode either merges it and deletes the branch,
+ * or leaves it open for review on the git host (draft becomes in-review)
  */
 router.post('/:id/approve', requireAdmin, async (req, res, next) => {
   try {
@@ -193,23 +906,59 @@ router.post('/:id/approve', requireAdmin, async (req, res, next) => {
       return res.status(400).json({ error: 'Draft is not pending' });
     }
 
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
+    const { git, source, local } = openDraft(config, draft);
+    const { publishing } = config;
+    const user = req.user as { email?: string; name?: string } | undefined;
 
-    // Create and merge PR
-    const prNumber = await github.createPullRequest(
-      draft.branchName,
-      `Docs: ${draft.title}`,
-      `Approved documentation update for \`${draft.docPath}\``
-    );
-    await github.mergePullRequest(prNumber);
+    // Links and redirects go in with the rename, move or delete itself, once: a retried
+    // approval reuses the commit made by the first attempt
+    let links = draft.linkUpdate;
+    if (draft.operation && !links) {
+      links = await publishOperation(git, source, local, {
+        author: commitAuthorFor(req.user, config),
+      });
+      await updateDraft(draft.id, { linkUpdate: links });
+    }
+    const vars = {
+      title: draft.title,
+      docPath: draft.docPath,
+      branch: draft.branchName,
+      author: draft.authorEmail || 'anonymous',
+      approver: user?.name || user?.email || 'admin',
+    };
+
+    // Create PR (imported drafts already have one)
+    const prNumber =
+      draft.prNumber ??
+      (await git.createPullRequest(
+        draft.branchName,
+        renderTemplate(publishing.prTitle, vars),
+        renderTemplate(publishing.prBody, vars),
+        { labels: publishing.labels, reviewers: publishing.reviewers }
+      ));
+
+    // Leave merging to the git host (branch protection, required checks)
+    if (publishing.mode === 'pull-request') {
+      const pr = await git.getPullRequest(prNumber);
+      const updatedDraft = await updateDraft(draft.id, {
+        status: 'in-review',
+        prNumber,
+        prUrl: pr.url,
+      });
+      return res.json({ draft: updatedDraft, prNumber, links });
+    }
+
+    await git.mergePullRequest(prNumber, publishing.mergeMethod);
 
     // Delete branch
-    await github.deleteBranch(draft.branchName);
+    if (!draft.imported) {
+      await git.deleteBranch(draft.branchName);
+    }
 
     // Update status
-    const updatedDraft = await updateDraft(draft.id, { status: 'approved' });
+    const updatedDraft = await updateDraft(draft.id, { status: 'approved', prNumber });
 
-    res.json({ draft: updatedDraft, prNumber });
+    res.json({ draft: updatedDraft, prNumber, links });
   } catch (error) {
     next(error);
   }
@@ -233,12 +982,14 @@ router.post('/:id/reject', requireAdmin, async (req, res, next) => {
       return res.status(400).json({ error: 'Draft is not pending' });
     }
 
-    // Delete Git branch
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-    try {
-      await github.deleteBranch(draft.branchName);
-    } catch {
-      // Branch might already be deleted
+    // Delete Git branch (imported drafts leave the PR author's branch alone)
+    const { git } = openDraft(config, draft);
+    if (!draft.imported) {
+      try {
+        await git.deleteBranch(draft.branchName);
+      } catch {
+        // Branch might already be deleted
+      }
     }
 
     // Add rejection comment if reason provided
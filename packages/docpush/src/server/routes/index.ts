@@ -2,3 +2,4 @@ export { default as authRoutes } from './auth';
 export { default as draftsRoutes } from './drafts';
 export { default as docsRoutes } from './docs';
 export { default as mediaRoutes } from './media';
+export { default as webhooksRoutes } from './webhooks';
@@ -2,7 +2,9 @@ import { randomUUID } from 'node:crypto';
 import path from 'node:path';
 import express from 'express';
 import type { DocsConfig } from '../../core/config';
-import { GitHubClient } from '../../core/github';
+import { createGitProvider } from '../../core/git';
+import { createLfsClient, isLfsTracked, parsePointer, serializePointer } from '../../core/lfs';
+import { getSource, resolveSource, toTreePath } from '../../core/sources';
 import { requireEdit } from '../middleware/auth';
 
 const router = express.Router();
@@ -13,8 +15,9 @@ const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
 /**
  * POST /api/media
- * Upload an image file to the repository
+ * Upload an image file to the repository (of ?source=, defaulting to the first source)
  * Body should be raw binary image data (Content-Type: image/*)
+ * Paths tracked by Git LFS (.gitattributes) get a pointer file, with the image in LFS
  */
 router.post(
   '/',
@@ -24,6 +27,11 @@ router.post(
     try {
       const config = req.config as DocsConfig;
 
+      const source = getSource(config, req.query.source as string | undefined);
+      if (!source) {
+        return res.status(400).json({ error: `Unknown source: ${req.query.source}` });
+      }
+
       // Ensure we have a Buffer
       let buffer: Buffer;
       if (Buffer.isBuffer(req.body)) {
@@ -66,15 +74,20 @@ router.post(
       const filename = `${randomUUID().slice(0, 8)}${ext}`;
       const filePath = `assets/${filename}`;
 
-      // Upload to GitHub
-      const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-      await github.uploadMedia(filePath, buffer, `Upload image: ${filename}`);
+      // Upload to repository
+      const git = createGitProvider(config, source);
+      const lfs = await isLfsTracked(git, `${source.docsPath}/${filePath}`);
+      const stored = lfs
+        ? Buffer.from(serializePointer(await createLfsClient(config, source).upload(buffer)))
+        : buffer;
+      await git.uploadMedia(filePath, stored, `Upload image: ${filename}`);
 
       // Return the URL to access the image
       res.status(201).json({
         success: true,
-        path: filePath,
-        url: `/api/media/${filePath}`,
+        path: toTreePath(source, filePath),
+        url: `/api/media/${toTreePath(source, filePath)}`,
+        lfs,
         markdown: `![${originalName || filename}](./assets/${filename})`,
       });
     } catch (error) {
@@ -85,7 +98,7 @@ router.post(
 
 /**
  * GET /api/media/:path*
- * Serve an image from the repository
+ * Serve an image from the repository (LFS pointers are resolved to the stored image)
  */
 router.get('/*', async (req, res, next) => {
   try {
@@ -109,9 +122,18 @@ router.get('/*', async (req, res, next) => {
 
     const contentType = contentTypes[ext] || 'application/octet-stream';
 
-    // Get file from GitHub
-    const github = new GitHubClient(process.env.GITHUB_TOKEN || '', config.github);
-    const content = await github.getMediaContent(filePath);
+    // Get file from the repository of the source it is under
+    const resolved = resolveSource(config, filePath);
+    if (!resolved) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    const git = createGitProvider(config, resolved.source);
+    let content = await git.getMediaContent(resolved.path);
+
+    const pointer = parsePointer(content);
+    if (pointer) {
+      content = await createLfsClient(config, resolved.source).download(pointer);
+    }
 
     // Set caching headers
     res.set('Content-Type', contentType);
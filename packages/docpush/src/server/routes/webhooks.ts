@@ -0,0 +1,182 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import express from 'express';
+import type { DocsConfig } from '../../core/config';
+import { githubCache } from '../../core/github';
+import { getSource, getSources, toTreePath } from '../../core/sources';
+import { type Draft, findDrafts, getDraftByBranch, updateDraft } from '../storage';
+
+const router = express.Router();
+
+interface PushPayload {
+  ref: string;
+  repository?: { full_name: string };
+  commits?: Array<{ added?: string[]; modified?: string[]; removed?: string[] }>;
+}
+
+interface PullRequestPayload {
+  action: string;
+  pull_request: {
+    number: number;
+    merged: boolean;
+    // repo is null when the fork was deleted
+    head: { ref: string; repo: { full_name: string } | null };
+  };
+}
+
+/**
+ * Check the X-Hub-Signature-256 header against the raw request body
+ */
+function verifySignature(secret: string, payload: Buffer, signature: string | undefined): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
+  );
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Whether a pull request belongs to draft: its recorded PR, or (before one is recorded) a PR
+ * from the draft's own repository rather than a fork that reuses the branch name
+ */
+function isDraftPullRequest(
+  config: DocsConfig,
+  draft: Draft,
+  pr: PullRequestPayload['pull_request']
+): boolean {
+  if (draft.prNumber !== undefined) {
+    return pr.number === draft.prNumber;
+  }
+
+  const source = getSource(config, draft.source);
+  return (
+    source !== undefined &&
+    pr.head.repo?.full_name.toLowerCase() === `${source.owner}/${source.repo}`.toLowerCase()
+  );
+}
+
+/**
+ * Docs touched by a push, relative to docsPath
+ */
+function changedDocs(payload: PushPayload, docsPath: string): string[] {
+  const prefix = `${docsPath}/`;
+  const paths = new Set<string>();
+
+  for (const commit of payload.commits || []) {
+    for (const file of [
+      ...(commit.added || []),
+      ...(commit.modified || []),
+      ...(commit.removed || []),
+    ]) {
+      if (file.startsWith(prefix)) paths.add(file.slice(prefix.length));
+    }
+  }
+
+  return [...paths];
+}
+
+/**
+ * POST /api/webhooks/github
+ * Receive push and pull_request events (requires GITHUB_WEBHOOK_SECRET)
+ * Mounted before the JSON body parser so the signature is checked against the raw body
+ */
+router.post(
+  '/github',
+  express.raw({ type: 'application/json', limit: '5mb' }),
+  async (req, res, next) => {
+    try {
+      const config = req.config as DocsConfig;
+      const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+      if (!secret) {
+        return res.status(404).json({ error: 'GitHub webhooks are not configured' });
+      }
+
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const signature = req.headers['x-hub-signature-256'] as string | undefined;
+
+      if (!verifySignature(secret, body, signature)) {
+        return res.status(401).json({ error: 'Invalid signature' });
+      }
+
+      const event = req.headers['x-github-event'] as string | undefined;
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body.toString('utf-8'));
+      } catch {
+        return res.status(400).json({ error: 'Invalid JSON payload' });
+      }
+
+      if (event === 'push') {
+        const push = payload as PushPayload;
+
+        // Only pushes to the published branch of a source affect docs and drafts
+        const repository = push.repository?.full_name.toLowerCase();
+        const sources = getSources(config).filter(
+          (source) =>
+            push.ref === `refs/heads/${source.branch}` &&
+            (!repository || repository === `${source.owner}/${source.repo}`.toLowerCase())
+        );
+        if (sources.length === 0) {
+          return res.json({ ignored: true });
+        }
+
+        const docs = sources.flatMap((source) =>
+          changedDocs(push, source.docsPath).map((doc) => toTreePath(source, doc))
+        );
+        if (docs.length === 0) {
+          return res.json({ ignored: true });
+        }
+
+        githubCache.invalidate();
+
+        // Pending drafts of a changed doc no longer match the published version
+        const stale: Draft[] = [];
+        for (const docPath of docs) {
+          stale.push(...(await findDrafts({ status: 'pending', docPath })));
+        }
+        for (const draft of stale) {
+          await updateDraft(draft.id, { stale: true });
+        }
+
+        return res.json({ docs, staleDrafts: stale.map((draft) => draft.id) });
+      }
+
+      if (event === 'pull_request') {
+        const { action, pull_request: pr } = payload as PullRequestPayload;
+
+        if (action !== 'closed') {
+          return res.json({ ignored: true });
+        }
+
+        // draft/* branches, and the branches of imported PRs
+        const draft = await getDraftByBranch(pr.head.ref);
+        // In-review drafts are waiting for exactly this event
+        if (
+          !draft ||
+          (draft.status !== 'pending' && draft.status !== 'in-review') ||
+          !isDraftPullRequest(config, draft, pr)
+        ) {
+          return res.json({ ignored: true });
+        }
+
+        // Merged or closed outside DocPush (e.g. in the GitHub UI)
+        const updatedDraft = await updateDraft(draft.id, {
+          status: pr.merged ? 'approved' : 'rejected',
+        });
+
+        return res.json({ draft: updatedDraft });
+      }
+
+      // ping and anything else we don't handle
+      res.json({ ignored: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'fs-extra';
+import { checkStorageAdapter } from './conformance';
+import { JsonStorageAdapter } from './json';
+import { SqliteStorageAdapter } from './sqlite';
+
+describe('checkStorageAdapter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docpush-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('passes for JsonStorageAdapter', async () => {
+    const report = await checkStorageAdapter(new JsonStorageAdapter(dir));
+
+    expect(report.failures).toEqual([]);
+    expect(report.passed.length).toBeGreaterThan(0);
+  });
+
+  it('passes for SqliteStorageAdapter', async () => {
+    const storage = new SqliteStorageAdapter(path.join(dir, 'docpush.db'));
+    try {
+      const report = await checkStorageAdapter(storage);
+
+      expect(report.failures).toEqual([]);
+      expect(report.passed.length).toBeGreaterThan(0);
+    } finally {
+      storage.close();
+    }
+  });
+});
@@ -0,0 +1,328 @@
+import assert from 'node:assert/strict';
+import type { Draft, DraftComment, StorageAdapter } from '../../core/storage';
+import { generateId } from './utils';
+
+export interface ConformanceFailure {
+  check: string;
+  error: string;
+}
+
+export interface ConformanceReport {
+  passed: string[];
+  failures: ConformanceFailure[];
+}
+
+type DraftInput = Omit<Draft, 'id' | 'createdAt' | 'updatedAt'>;
+
+function draftInput(overrides: Partial<DraftInput> = {}): DraftInput {
+  const suffix = generateId().slice(0, 8);
+  return {
+    docPath: `conformance/${suffix}.md`,
+    branchName: `draft/conformance-${suffix}`,
+    title: `Conformance ${suffix}`,
+    authorId: null,
+    authorEmail: null,
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+const CHECKS: Array<{ name: string; run: (storage: StorageAdapter) => Promise<void> }> = [
+  {
+    name: 'createDraft assigns an id and timestamps, and getDraft returns the draft',
+    run: async (storage) => {
+      const input = draftInput();
+      const draft = await storage.createDraft(input);
+
+      assert.equal(typeof draft.id, 'string');
+      assert.ok(draft.id.length > 0);
+      assert.ok(Number.isInteger(draft.createdAt) && draft.createdAt > 0);
+      assert.equal(draft.updatedAt, draft.createdAt);
+      assert.deepEqual(await storage.getDraft(draft.id), { ...input, ...draft });
+
+      const other = await storage.createDraft(draftInput());
+      assert.notEqual(other.id, draft.id);
+    },
+  },
+  {
+    name: 'optional draft fields round-trip',
+    run: async (storage) => {
+      const draft = await storage.createDraft(
+        draftInput({
+          authorId: 'user-1',
+          authorEmail: 'editor@example.com',
+          status: 'in-review',
+          prNumber: 42,
+          prUrl: 'https://example.com/pr/42',
+          imported: true,
+          editors: [{ name: 'Editor', email: 'editor@example.com' }],
+          baseSha: 'abc123',
+          stale: true,
+          operation: 'move',
+          newPath: 'conformance/moved.md',
+          source: 'handbook',
+        })
+      );
+
+      assert.deepEqual(await storage.getDraft(draft.id), draft);
+    },
+  },
+  {
+    name: 'unknown ids return null or false',
+    run: async (storage) => {
+      const id = generateId();
+      assert.equal(await storage.getDraft(id), null);
+      assert.equal(await storage.getDraftByBranch(`draft/${id}`), null);
+      assert.equal(await storage.updateDraft(id, { title: 'x' }), null);
+      assert.equal(await storage.deleteDraft(id), false);
+      assert.deepEqual(await storage.getComments(id), []);
+    },
+  },
+  {
+    name: 'getDrafts lists drafts, filtered by status',
+    run: async (storage) => {
+      const pending = await storage.createDraft(draftInput());
+      const rejected = await storage.createDraft(draftInput({ status: 'rejected' }));
+
+      const all = (await storage.getDrafts()).map((d) => d.id);
+      assert.ok(all.includes(pending.id) && all.includes(rejected.id));
+
+      const filtered = await storage.getDrafts('rejected');
+      assert.ok(filtered.every((d) => d.status === 'rejected'));
+      assert.ok(filtered.some((d) => d.id === rejected.id));
+      assert.ok(!filtered.some((d) => d.id === pending.id));
+    },
+  },
+  {
+    name: 'findDrafts matches every given field',
+    run: async (storage) => {
+      const email = `${generateId().slice(0, 8)}@example.com`;
+      const mine = await storage.createDraft(draftInput({ authorEmail: email }));
+      const approved = await storage.createDraft(
+        draftInput({ authorEmail: email, status: 'approved' })
+      );
+      await storage.createDraft(draftInput({ docPath: mine.docPath }));
+
+      const byAuthor = (await storage.findDrafts({ authorEmail: email })).map((d) => d.id);
+      assert.deepEqual(byAuthor.sort(), [mine.id, approved.id].sort());
+
+      const pending = await storage.findDrafts({ authorEmail: email, status: 'pending' });
+      assert.deepEqual(
+        pending.map((d) => d.id),
+        [mine.id]
+      );
+
+      const byPath = await storage.findDrafts({ docPath: mine.docPath });
+      assert.equal(byPath.length, 2);
+      assert.ok(byPath.every((d) => d.docPath === mine.docPath));
+    },
+  },
+  {
+    name: 'getDraftByBranch finds the draft for a branch',
+    run: async (storage) => {
+      const draft = await storage.createDraft(draftInput());
+      assert.equal((await storage.getDraftByBranch(draft.branchName))?.id, draft.id);
+    },
+  },
+  {
+    name: 'updateDraft merges fields, keeps the id and bumps updatedAt',
+    run: async (storage) => {
+      const draft = await storage.createDraft(draftInput());
+      const updated = await storage.updateDraft(draft.id, {
+        status: 'approved',
+        prNumber: 7,
+        id: generateId(),
+      });
+
+      assert.ok(updated);
+      assert.equal(updated.id, draft.id);
+      assert.equal(updated.status, 'approved');
+      assert.equal(updated.prNumber, 7);
+      assert.equal(updated.title, draft.title);
+      assert.ok(updated.updatedAt >= draft.updatedAt);
+      assert.deepEqual(await storage.getDraft(draft.id), updated);
+    },
+  },
+  {
+    name: 'comments are listed per draft, oldest first',
+    run: async (storage) => {
+      const draft = await storage.createDraft(draftInput());
+      const other = await storage.createDraft(draftInput());
+      const author = { userId: null, userEmail: null, userName: 'Reviewer' };
+
+      const first = await storage.addComment({ ...author, draftId: draft.id, content: 'first' });
+      await storage.addComment({ ...author, draftId: other.id, content: 'elsewhere' });
+      const second = await storage.addComment({ ...author, draftId: draft.id, content: 'second' });
+
+      assert.notEqual(first.id, second.id);
+      assert.ok(Number.isInteger(first.createdAt) && first.createdAt > 0);
+      assert.deepEqual(await storage.getComments(draft.id), [first, second]);
+    },
+  },
+  {
+    name: 'deleteDraft removes the draft and its comments',
+    run: async (storage) => {
+      const draft = await storage.createDraft(draftInput());
+      await storage.addComment({
+        draftId: draft.id,
+        userId: null,
+        userEmail: null,
+        userName: null,
+        content: 'gone with the draft',
+      });
+
+      assert.equal(await storage.deleteDraft(draft.id), true);
+      assert.equal(await storage.getDraft(draft.id), null);
+      assert.deepEqual(await storage.getComments(draft.id), []);
+      assert.equal(await storage.deleteDraft(draft.id), false);
+    },
+  },
+  {
+    name: 'putDraft and putComment store records as given',
+    run: async (storage) => {
+      const draft: Draft = {
+        ...draftInput({ prNumber: 3 }),
+        id: generateId(),
+        createdAt: 100,
+        updatedAt: 200,
+      };
+      await storage.putDraft(draft);
+      assert.deepEqual(await storage.getDraft(draft.id), draft);
+
+      const replaced: Draft = { ...draft, title: 'Replaced', status: 'approved', updatedAt: 300 };
+      await storage.putDraft(replaced);
+      assert.deepEqual(await storage.getDraft(draft.id), replaced);
+      assert.equal((await storage.getDrafts()).filter((d) => d.id === draft.id).length, 1);
+
+      const comment: DraftComment = {
+        id: generateId(),
+        draftId: draft.id,
+        userId: 'user-1',
+        userEmail: 'user@example.com',
+        userName: 'User',
+        content: 'imported',
+        createdAt: 150,
+      };
+      await storage.putComment(comment);
+      await storage.putComment({ ...comment, content: 'edited' });
+      assert.deepEqual(await storage.getComments(draft.id), [{ ...comment, content: 'edited' }]);
+    },
+  },
+  {
+    name: 'writeBatch applies all of a batch or none of it',
+    run: async (storage) => {
+      const record = (overrides: Partial<Draft> = {}): Draft => ({
+        ...draftInput(),
+        id: generateId(),
+        createdAt: 100,
+        updatedAt: 100,
+        ...overrides,
+      });
+      const comment = (draftId: string): DraftComment => ({
+        id: generateId(),
+        draftId,
+        userId: null,
+        userEmail: null,
+        userName: null,
+        content: 'batched',
+        createdAt: 150,
+      });
+
+      const old = record();
+      const oldComment = comment(old.id);
+      await storage.writeBatch({ deleteDrafts: [], drafts: [old], comments: [oldComment] });
+      assert.deepEqual(await storage.getDraft(old.id), old);
+      assert.deepEqual(await storage.getComments(old.id), [oldComment]);
+
+      // The last comment's draft doesn't exist, so nothing may change
+      const added = record();
+      await assert.rejects(
+        storage.writeBatch({
+          deleteDrafts: [old.id],
+          drafts: [added],
+          comments: [comment(added.id), comment(generateId())],
+        })
+      );
+      assert.deepEqual(await storage.getDraft(old.id), old);
+      assert.deepEqual(await storage.getComments(old.id), [oldComment]);
+      assert.equal(await storage.getDraft(added.id), null);
+
+      // Deletes go first, so a draft can be replaced along with its comments
+      const replaced = { ...old, title: 'Replaced' };
+      const newComment = comment(old.id);
+      await storage.writeBatch({
+        deleteDrafts: [old.id],
+        drafts: [replaced, added],
+        comments: [newComment],
+      });
+      assert.deepEqual(await storage.getDraft(old.id), replaced);
+      assert.deepEqual(await storage.getComments(old.id), [newComment]);
+      assert.deepEqual(await storage.getDraft(added.id), added);
+    },
+  },
+  {
+    name: 'sessions can be created, read and deleted',
+    run: async (storage) => {
+      const token = await storage.createSession('user-1', 'user@example.com', 'User');
+      const unnamed = await storage.createSession('user-2', 'other@example.com');
+
+      assert.notEqual(token, unnamed);
+      assert.deepEqual(await storage.getSession(token), {
+        userId: 'user-1',
+        email: 'user@example.com',
+        name: 'User',
+      });
+      assert.equal((await storage.getSession(unnamed))?.name, undefined);
+      assert.equal(await storage.getSession(generateId()), null);
+
+      await storage.deleteSession(token);
+      assert.equal(await storage.getSession(token), null);
+      // Deleting twice is harmless
+      await storage.deleteSession(token);
+    },
+  },
+  {
+    name: 'magic links verify once',
+    run: async (storage) => {
+      const token = await storage.createMagicLink('reader@example.com');
+
+      assert.equal(await storage.verifyMagicLink(token), 'reader@example.com');
+      assert.equal(await storage.verifyMagicLink(token), null);
+      assert.equal(await storage.verifyMagicLink(generateId()), null);
+    },
+  },
+  {
+    name: 'cleanupExpired keeps live sessions and links',
+    run: async (storage) => {
+      const session = await storage.createSession('user-3', 'live@example.com');
+      const link = await storage.createMagicLink('live@example.com');
+
+      await storage.cleanupExpired();
+
+      assert.equal((await storage.getSession(session))?.email, 'live@example.com');
+      assert.equal(await storage.verifyMagicLink(link), 'live@example.com');
+    },
+  },
+];
+
+/**
+ * Run the checks every StorageAdapter must pass. They create drafts, comments and sessions
+ * of their own, so point the adapter at an empty scratch store.
+ */
+export async function checkStorageAdapter(storage: StorageAdapter): Promise<ConformanceReport> {
+  const report: ConformanceReport = { passed: [], failures: [] };
+
+  for (const check of CHECKS) {
+    try {
+      await check.run(storage);
+      report.passed.push(check.name);
+    } catch (error: unknown) {
+      report.failures.push({
+        check: check.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return report;
+}
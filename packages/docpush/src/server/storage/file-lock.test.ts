@@ -0,0 +1,142 @@
+import { execFile, spawn } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import fs from 'fs-extra';
+import { withFileLock, writeJsonAtomic } from './file-lock';
+
+const run = promisify(execFile);
+const WORKER = path.join(__dirname, '../../test/lock-worker.ts');
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function increment(file: string): Promise<void> {
+  await withFileLock(file, async () => {
+    const data = await fs.readJson(file);
+    await writeJsonAtomic(file, { ...data, count: data.count + 1 });
+  });
+}
+
+describe('withFileLock', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docpush-lock-'));
+    file = path.join(dir, 'counter.json');
+    await writeJsonAtomic(file, { count: 0, writers: [] });
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('runs calls in this process one at a time, in order', async () => {
+    const order: number[] = [];
+    let running = 0;
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        withFileLock(file, async () => {
+          running += 1;
+          expect(running).toBe(1);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          order.push(i);
+          running -= 1;
+        })
+      )
+    );
+
+    expect(order).toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    await expect(
+      withFileLock(file, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    await expect(withFileLock(file, async () => 'next')).resolves.toBe('next');
+    expect(await fs.pathExists(`${file}.lock`)).toBe(false);
+  });
+
+  it('loses no writes and leaves no torn file when processes contend', async () => {
+    const workers = 3;
+    const times = 25;
+    const tsx = require.resolve('tsx/cli');
+
+    // Read the file over and over while the workers write: every read must parse
+    let reading = true;
+    let reads = 0;
+    const reader = (async () => {
+      while (reading) {
+        const data = await fs.readJson(file);
+        expect(typeof data.count).toBe('number');
+        reads += 1;
+        await new Promise((resolve) => setTimeout(resolve, 2));
+      }
+    })();
+
+    try {
+      await Promise.all(
+        Array.from({ length: workers }, () =>
+          run(process.execPath, [tsx, WORKER, file, String(times)], { timeout: 60_000 })
+        )
+      );
+    } finally {
+      reading = false;
+      await reader;
+    }
+
+    const data = await fs.readJson(file);
+    expect(data.count).toBe(workers * times);
+    expect(new Set(data.writers).size).toBe(workers);
+    expect(reads).toBeGreaterThan(0);
+    // No lock or temp files left behind
+    expect(await fs.readdir(dir)).toEqual(['counter.json']);
+  }, 120_000);
+
+  it('waits for a live holder that keeps the lock longer than a stale lock lasts', async () => {
+    const tsx = require.resolve('tsx/cli');
+    const holder = run(process.execPath, [tsx, WORKER, file, '1', '12000'], { timeout: 60_000 });
+
+    while (!(await fs.pathExists(`${file}.lock`))) {
+      await sleep(20);
+    }
+    const started = Date.now();
+    await increment(file);
+
+    await holder;
+    expect(Date.now() - started).toBeGreaterThan(10_000);
+    // The holder's write survived: the waiter read it rather than taking the lock early
+    expect((await fs.readJson(file)).count).toBe(2);
+  }, 60_000);
+
+  it('takes over the lock of a process that exited without releasing it', async () => {
+    const child = spawn(process.execPath, ['-e', '']);
+    await new Promise((resolve) => child.on('exit', resolve));
+    await fs.writeFile(`${file}.lock`, `${child.pid} ${os.hostname()} abandoned\n`);
+
+    const started = Date.now();
+    await increment(file);
+
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect((await fs.readJson(file)).count).toBe(1);
+    expect(await fs.readdir(dir)).toEqual(['counter.json']);
+  });
+
+  it('takes over a lock from another host whose heartbeat stopped', async () => {
+    const lockPath = `${file}.lock`;
+    await fs.writeFile(lockPath, '1 other-host abandoned\n');
+    const stopped = new Date(Date.now() - 20_000);
+    await fs.utimes(lockPath, stopped, stopped);
+
+    await increment(file);
+
+    expect((await fs.readJson(file)).count).toBe(1);
+    expect(await fs.pathExists(lockPath)).toBe(false);
+  });
+});
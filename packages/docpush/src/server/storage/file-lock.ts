@@ -0,0 +1,173 @@
+import { randomBytes } from 'node:crypto';
+import { open } from 'node:fs/promises';
+import os from 'node:os';
+import fs from 'fs-extra';
+import { StorageLockError } from '../../core/errors';
+
+// A lock from another host is stale once its holder has stopped touching it for this long
+const STALE_LOCK_MS = 10_000;
+// Holders touch their lock file this often
+const HEARTBEAT_MS = 2_000;
+// Give up waiting for a live holder after this long
+const LOCK_TIMEOUT_MS = 15_000;
+
+// Tail of each file's queue of writers in this process
+const queues = new Map<string, Promise<void>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: unknown) {
+    // EPERM: the process exists but belongs to another user
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a lock's holder is gone: on this host, its process has exited; elsewhere, it has
+ * stopped its heartbeat
+ */
+function isStale(content: string, mtimeMs: number): boolean {
+  // An empty lock was created but its token not yet written: only its age tells
+  const [pid, host] = content.split(' ');
+  if (host === os.hostname() && Number(pid) > 0) {
+    return !isAlive(Number(pid));
+  }
+  return Date.now() - mtimeMs > STALE_LOCK_MS;
+}
+
+/**
+ * Move a stale lock aside. Of several waiters only one rename can succeed, and if a new
+ * holder locked in between, the lock moved is not the stale one and is put back.
+ */
+async function breakLock(lockPath: string, staleContent: string): Promise<void> {
+  const aside = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+  try {
+    await fs.rename(lockPath, aside);
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw e;
+  }
+
+  try {
+    if ((await fs.readFile(aside, 'utf-8')) !== staleContent) {
+      await fs.link(aside, lockPath);
+    }
+  } finally {
+    await fs.remove(aside);
+  }
+}
+
+/**
+ * Create file's lock, returning the token written into it
+ */
+async function acquireLockFile(file: string): Promise<string> {
+  const lockPath = `${file}.lock`;
+  const token = `${process.pid} ${os.hostname()} ${randomBytes(8).toString('hex')}\n`;
+  const started = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await fs.writeFile(lockPath, token, { flag: 'wx' });
+      return token;
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+    }
+
+    try {
+      const [content, { mtimeMs }] = await Promise.all([
+        fs.readFile(lockPath, 'utf-8'),
+        fs.stat(lockPath),
+      ]);
+      if (isStale(content, mtimeMs)) {
+        await breakLock(lockPath, content);
+        continue;
+      }
+    } catch (e: unknown) {
+      // Released between our attempt and the read
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw e;
+    }
+
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new StorageLockError(file);
+    }
+    await sleep(Math.min(5 * 2 ** attempt, 100) + Math.random() * 10);
+  }
+}
+
+/**
+ * Remove file's lock, unless it was broken and someone else holds it now
+ */
+async function releaseLockFile(file: string, token: string): Promise<void> {
+  const lockPath = `${file}.lock`;
+  try {
+    if ((await fs.readFile(lockPath, 'utf-8')) !== token) return;
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw e;
+  }
+  await fs.remove(lockPath);
+}
+
+/**
+ * Run fn while holding file's lock: calls in this process queue up in order, and other
+ * processes are kept out by an advisory <file>.lock that is created exclusively. The holder
+ * touches the lock while fn runs, so a slow write is not mistaken for a dead one.
+ */
+export async function withFileLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const previous = queues.get(file) ?? Promise.resolve();
+  let release = () => {};
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  queues.set(file, tail);
+
+  await previous;
+  try {
+    const token = await acquireLockFile(file);
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(`${file}.lock`, now, now).catch(() => {});
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await releaseLockFile(file, token);
+    }
+  } finally {
+    release();
+    if (queues.get(file) === tail) queues.delete(file);
+  }
+}
+
+/**
+ * Replace file with data as JSON: write and flush a temp file beside it, then rename it over
+ * the original, so a crash leaves either the old or the new contents
+ */
+export async function writeJsonAtomic(file: string, data: unknown): Promise<void> {
+  const tempPath = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    const handle = await open(tempPath, 'w');
+    try {
+      await handle.writeFile(`${JSON.stringify(data, null, 2)}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, file);
+  } catch (e: unknown) {
+    await fs.remove(tempPath);
+    throw e;
+  }
+}
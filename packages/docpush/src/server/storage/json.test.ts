@@ -0,0 +1,103 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { Draft } from '../../core/storage';
+import { JsonStorageAdapter } from './json';
+
+function draftInput(n: number): Omit<Draft, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    docPath: `guide/${n}.md`,
+    branchName: `draft/${n}`,
+    title: `Draft ${n}`,
+    authorId: null,
+    authorEmail: null,
+    status: 'pending',
+  };
+}
+
+describe('JsonStorageAdapter under concurrent writes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docpush-json-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('keeps every comment added at once, across adapter instances', async () => {
+    // Two instances on one directory, like two routers sharing a data dir
+    const first = new JsonStorageAdapter(dir);
+    const second = new JsonStorageAdapter(dir);
+    const draft = await first.createDraft(draftInput(0));
+
+    const added = await Promise.all(
+      Array.from({ length: 100 }, (_, i) =>
+        (i % 2 ? first : second).addComment({
+          draftId: draft.id,
+          userId: null,
+          userEmail: null,
+          userName: 'Reviewer',
+          content: `comment ${i}`,
+        })
+      )
+    );
+
+    const comments = await first.getComments(draft.id);
+    expect(comments).toHaveLength(100);
+    expect(new Set(comments.map((c) => c.id))).toEqual(new Set(added.map((c) => c.id)));
+  });
+
+  it('keeps every update made at once, alongside comments', async () => {
+    const storage = new JsonStorageAdapter(dir);
+    const drafts = await Promise.all(
+      Array.from({ length: 30 }, (_, i) => storage.createDraft(draftInput(i)))
+    );
+
+    await Promise.all(
+      drafts.flatMap((draft, i) => [
+        storage.updateDraft(draft.id, { status: 'approved', prNumber: i }),
+        storage.updateDraft(draft.id, { stale: true }),
+        storage.addComment({
+          draftId: draft.id,
+          userId: null,
+          userEmail: null,
+          userName: null,
+          content: 'approved',
+        }),
+      ])
+    );
+
+    const stored = await storage.getDrafts();
+    expect(stored).toHaveLength(30);
+    for (const [i, draft] of drafts.entries()) {
+      expect(await storage.getDraft(draft.id)).toMatchObject({
+        status: 'approved',
+        prNumber: i,
+        stale: true,
+      });
+      expect(await storage.getComments(draft.id)).toHaveLength(1);
+    }
+  });
+
+  it('verifies a magic link once when checked concurrently', async () => {
+    const storage = new JsonStorageAdapter(dir);
+    const token = await storage.createMagicLink('reader@example.com');
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => storage.verifyMagicLink(token))
+    );
+
+    expect(results.filter(Boolean)).toEqual(['reader@example.com']);
+  });
+
+  it('leaves only the data files behind', async () => {
+    const storage = new JsonStorageAdapter(dir);
+    await Promise.all(Array.from({ length: 20 }, (_, i) => storage.createDraft(draftInput(i))));
+    await storage.createSession('user-1', 'user@example.com');
+
+    expect((await fs.readdir(dir)).sort()).toEqual(['drafts.json', 'sessions.json']);
+    expect((await fs.readJson(path.join(dir, 'drafts.json'))).drafts).toHaveLength(20);
+  });
+});
@@ -0,0 +1,364 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import type {
+  Draft,
+  DraftComment,
+  DraftQuery,
+  MigrationOptions,
+  MigrationReport,
+  SessionUser,
+  StorageAdapter,
+  StorageBatch,
+} from '../../core/storage';
+import { withFileLock, writeJsonAtomic } from './file-lock';
+import {
+  JSON_MIGRATIONS,
+  STORAGE_VERSION,
+  backupStamp,
+  migrationReport,
+  pendingMigrations,
+} from './migrations';
+import { generateId, now } from './utils';
+
+export const DATA_DIR = '.docpush';
+const DRAFTS_FILE = 'drafts.json';
+const SESSIONS_FILE = 'sessions.json';
+
+// version is absent in files written before schema versions existed (version 0)
+interface DraftsData {
+  version?: number;
+  drafts: Draft[];
+  comments: DraftComment[];
+}
+
+interface SessionsData {
+  version?: number;
+  sessions: Record<string, { userId: string; email: string; name?: string; expiresAt: number }>;
+  magicLinks: Record<string, { email: string; expiresAt: number; used: boolean }>;
+}
+
+/**
+ * Default storage: drafts and comments in drafts.json, sessions and magic links in
+ * sessions.json, under dataDir (.docpush in the working directory). Changes run one at a
+ * time per file under a lock shared with other processes, and files are replaced atomically.
+ */
+export class JsonStorageAdapter implements StorageAdapter {
+  private dataDir: string;
+
+  constructor(dataDir = DATA_DIR) {
+    this.dataDir = path.resolve(process.cwd(), dataDir);
+  }
+
+  // Drafts storage
+  private async loadDraftsData(): Promise<DraftsData> {
+    const filePath = await this.dataFile(DRAFTS_FILE);
+
+    if (await fs.pathExists(filePath)) {
+      return fs.readJson(filePath);
+    }
+
+    return { version: STORAGE_VERSION, drafts: [], comments: [] };
+  }
+
+  // Read, change and save drafts.json while holding its lock
+  private async updateDraftsData<T>(change: (data: DraftsData) => T): Promise<T> {
+    const filePath = await this.dataFile(DRAFTS_FILE);
+    return withFileLock(filePath, async () => {
+      const data = await this.loadDraftsData();
+      const result = change(data);
+      await writeJsonAtomic(filePath, data);
+      return result;
+    });
+  }
+
+  // Sessions storage
+  private async loadSessionsData(): Promise<SessionsData> {
+    const filePath = await this.dataFile(SESSIONS_FILE);
+
+    if (await fs.pathExists(filePath)) {
+      return fs.readJson(filePath);
+    }
+
+    return { version: STORAGE_VERSION, sessions: {}, magicLinks: {} };
+  }
+
+  private async updateSessionsData<T>(change: (data: SessionsData) => T): Promise<T> {
+    const filePath = await this.dataFile(SESSIONS_FILE);
+    return withFileLock(filePath, async () => {
+      const data = await this.loadSessionsData();
+      const result = change(data);
+      await writeJsonAtomic(filePath, data);
+      return result;
+    });
+  }
+
+  // Ensure data directory exists
+  private async dataFile(name: string): Promise<string> {
+    await fs.ensureDir(this.dataDir);
+    return path.join(this.dataDir, name);
+  }
+
+  async migrate(options: MigrationOptions = {}): Promise<MigrationReport> {
+    const draftsPath = await this.dataFile(DRAFTS_FILE);
+    const sessionsPath = await this.dataFile(SESSIONS_FILE);
+
+    // Hold both locks (drafts first) so no write slips in mid-migration
+    return withFileLock(draftsPath, () =>
+      withFileLock(sessionsPath, async () => {
+        const files = [];
+        for (const [filePath, part] of [
+          [draftsPath, 'drafts'],
+          [sessionsPath, 'sessions'],
+        ] as const) {
+          if (!(await fs.pathExists(filePath))) continue;
+          const data: Record<string, unknown> = await fs.readJson(filePath);
+          const version = typeof data.version === 'number' ? data.version : 0;
+          files.push({
+            filePath,
+            part,
+            data,
+            version,
+            pending: pendingMigrations(JSON_MIGRATIONS, version),
+          });
+        }
+
+        // The oldest file decides what the report covers
+        const version = Math.min(STORAGE_VERSION, ...files.map((file) => file.version));
+        const report = migrationReport(
+          version,
+          pendingMigrations(JSON_MIGRATIONS, version),
+          Boolean(options.dryRun)
+        );
+        if (options.dryRun || report.migrations.length === 0) return report;
+
+        if (options.backup !== false) {
+          report.backupPath = path.join(this.dataDir, 'backups', `v${version}-${backupStamp()}`);
+          for (const { filePath } of files) {
+            await fs.copy(filePath, path.join(report.backupPath, path.basename(filePath)));
+          }
+        }
+
+        for (const file of files) {
+          let data = file.data;
+          for (const migration of file.pending) {
+            data = { ...(migration[file.part]?.(data) ?? data), version: migration.version };
+          }
+          await writeJsonAtomic(file.filePath, data);
+        }
+        return report;
+      })
+    );
+  }
+
+  // Draft operations
+  async getDrafts(status?: string): Promise<Draft[]> {
+    const data = await this.loadDraftsData();
+    if (status) {
+      return data.drafts.filter((d) => d.status === status);
+    }
+    return data.drafts;
+  }
+
+  async findDrafts(query: DraftQuery): Promise<Draft[]> {
+    const data = await this.loadDraftsData();
+    return data.drafts.filter(
+      (d) =>
+        (query.status === undefined || d.status === query.status) &&
+        (query.authorEmail === undefined || d.authorEmail === query.authorEmail) &&
+        (query.docPath === undefined || d.docPath === query.docPath)
+    );
+  }
+
+  async getDraft(id: string): Promise<Draft | null> {
+    const data = await this.loadDraftsData();
+    return data.drafts.find((d) => d.id === id) || null;
+  }
+
+  async getDraftByBranch(branchName: string): Promise<Draft | null> {
+    const data = await this.loadDraftsData();
+    return data.drafts.find((d) => d.branchName === branchName) || null;
+  }
+
+  async createDraft(draft: Omit<Draft, 'id' | 'createdAt' | 'updatedAt'>): Promise<Draft> {
+    const newDraft: Draft = {
+      ...draft,
+      id: generateId(),
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    await this.updateDraftsData((data) => {
+      data.drafts.push(newDraft);
+    });
+    return newDraft;
+  }
+
+  async updateDraft(id: string, updates: Partial<Draft>): Promise<Draft | null> {
+    return this.updateDraftsData((data) => {
+      const index = data.drafts.findIndex((d) => d.id === id);
+      if (index === -1) return null;
+
+      data.drafts[index] = {
+        ...data.drafts[index],
+        ...updates,
+        id,
+        updatedAt: now(),
+      };
+      return data.drafts[index];
+    });
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    return this.updateDraftsData((data) => {
+      const index = data.drafts.findIndex((d) => d.id === id);
+      if (index === -1) return false;
+
+      data.drafts.splice(index, 1);
+      // Also delete comments for this draft
+      data.comments = data.comments.filter((c) => c.draftId !== id);
+      return true;
+    });
+  }
+
+  async putDraft(draft: Draft): Promise<void> {
+    await this.updateDraftsData((data) => {
+      const index = data.drafts.findIndex((d) => d.id === draft.id);
+      if (index === -1) {
+        data.drafts.push(draft);
+      } else {
+        data.drafts[index] = draft;
+      }
+    });
+  }
+
+  // Comment operations
+  async getComments(draftId: string): Promise<DraftComment[]> {
+    const data = await this.loadDraftsData();
+    return data.comments.filter((c) => c.draftId === draftId);
+  }
+
+  async addComment(comment: Omit<DraftComment, 'id' | 'createdAt'>): Promise<DraftComment> {
+    const newComment: DraftComment = {
+      ...comment,
+      id: generateId(),
+      createdAt: now(),
+    };
+    await this.updateDraftsData((data) => {
+      data.comments.push(newComment);
+    });
+    return newComment;
+  }
+
+  async putComment(comment: DraftComment): Promise<void> {
+    await this.updateDraftsData((data) => {
+      const index = data.comments.findIndex((c) => c.id === comment.id);
+      if (index === -1) {
+        data.comments.push(comment);
+      } else {
+        data.comments[index] = comment;
+      }
+    });
+  }
+
+  async writeBatch(batch: StorageBatch): Promise<void> {
+    // Everything is changed in memory first; drafts.json is only written if all of it applies
+    await this.updateDraftsData((data) => {
+      const deleted = new Set(batch.deleteDrafts);
+      const drafts = new Map(
+        data.drafts.filter((d) => !deleted.has(d.id)).map((d) => [d.id, d] as const)
+      );
+      const comments = new Map(
+        data.comments.filter((c) => !deleted.has(c.draftId)).map((c) => [c.id, c] as const)
+      );
+
+      for (const draft of batch.drafts) {
+        drafts.set(draft.id, draft);
+      }
+      for (const comment of batch.comments) {
+        if (!drafts.has(comment.draftId)) {
+          throw new Error(`Comment ${comment.id} belongs to missing draft ${comment.draftId}`);
+        }
+        comments.set(comment.id, comment);
+      }
+
+      data.drafts = [...drafts.values()];
+      data.comments = [...comments.values()];
+    });
+  }
+
+  // Session operations
+  async createSession(userId: string, email: string, name?: string): Promise<string> {
+    const token = generateId();
+    await this.updateSessionsData((data) => {
+      data.sessions[token] = {
+        userId,
+        email,
+        name,
+        expiresAt: now() + 86400, // 24 hours
+      };
+    });
+    return token;
+  }
+
+  async getSession(token: string): Promise<SessionUser | null> {
+    const data = await this.loadSessionsData();
+    const session = data.sessions[token];
+    if (!session || session.expiresAt < now()) {
+      return null;
+    }
+    return { userId: session.userId, email: session.email, name: session.name };
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    await this.updateSessionsData((data) => {
+      delete data.sessions[token];
+    });
+  }
+
+  // Magic link operations
+  async createMagicLink(email: string): Promise<string> {
+    const token = generateId();
+    await this.updateSessionsData((data) => {
+      data.magicLinks[token] = {
+        email,
+        expiresAt: now() + 900, // 15 minutes
+        used: false,
+      };
+    });
+    return token;
+  }
+
+  async verifyMagicLink(token: string): Promise<string | null> {
+    return this.updateSessionsData((data) => {
+      const link = data.magicLinks[token];
+
+      if (!link || link.used || link.expiresAt < now()) {
+        return null;
+      }
+
+      // Mark as used
+      link.used = true;
+      return link.email;
+    });
+  }
+
+  // Cleanup expired data
+  async cleanupExpired(): Promise<void> {
+    const currentTime = now();
+
+    await this.updateSessionsData((sessionsData) => {
+      // Clean expired sessions
+      for (const token of Object.keys(sessionsData.sessions)) {
+        if (sessionsData.sessions[token].expiresAt < currentTime) {
+          delete sessionsData.sessions[token];
+        }
+      }
+
+      // Clean expired magic links
+      for (const token of Object.keys(sessionsData.magicLinks)) {
+        if (sessionsData.magicLinks[token].expiresAt < currentTime) {
+          delete sessionsData.magicLinks[token];
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import type Database from 'better-sqlite3';
+import { StorageVersionError } from '../../core/errors';
+import type { MigrationReport } from '../../core/storage';
+
+/**
+ * Schema version of stored data. Add a migration to both lists when it changes.
+ */
+export const STORAGE_VERSION = 1;
+
+type JsonObject = Record<string, unknown>;
+
+export interface JsonMigration {
+  version: number;
+  description: string;
+  // Transform the parsed contents of drafts.json and sessions.json
+  drafts?: (data: JsonObject) => JsonObject;
+  sessions?: (data: JsonObject) => JsonObject;
+}
+
+export interface SqliteMigration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export const JSON_MIGRATIONS: JsonMigration[] = [
+  {
+    version: 1,
+    description: 'Add version markers and null the author and commenter fields older files omit',
+    drafts: (data) => ({
+      ...data,
+      drafts: ((data.drafts ?? []) as JsonObject[]).map((draft) => ({
+        authorId: null,
+        authorEmail: null,
+        ...draft,
+      })),
+      comments: ((data.comments ?? []) as JsonObject[]).map((comment) => ({
+        userId: null,
+        userEmail: null,
+        userName: null,
+        ...comment,
+      })),
+    }),
+    sessions: (data) => ({ sessions: {}, magicLinks: {}, ...data }),
+  },
+];
+
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'Create drafts, comments, sessions and magic_links tables',
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS drafts (
+          id TEXT PRIMARY KEY,
+          doc_path TEXT NOT NULL,
+          branch_name TEXT NOT NULL,
+          status TEXT NOT NULL,
+          author_email TEXT,
+          data TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS drafts_status ON drafts (status);
+        CREATE INDEX IF NOT EXISTS drafts_author_email ON drafts (author_email);
+        CREATE INDEX IF NOT EXISTS drafts_doc_path ON drafts (doc_path);
+        CREATE INDEX IF NOT EXISTS drafts_branch_name ON drafts (branch_name);
+
+        CREATE TABLE IF NOT EXISTS comments (
+          id TEXT PRIMARY KEY,
+          draft_id TEXT NOT NULL REFERENCES drafts (id) ON DELETE CASCADE,
+          user_id TEXT,
+          user_email TEXT,
+          user_name TEXT,
+          content TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS comments_draft_id ON comments (draft_id, created_at);
+
+        CREATE TABLE IF NOT EXISTS sessions (
+          token TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          email TEXT NOT NULL,
+          name TEXT,
+          expires_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS sessions_expires_at ON sessions (expires_at);
+
+        CREATE TABLE IF NOT EXISTS magic_links (
+          token TEXT PRIMARY KEY,
+          email TEXT NOT NULL,
+          expires_at INTEGER NOT NULL,
+          used INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS magic_links_expires_at ON magic_links (expires_at);
+      `),
+  },
+];
+
+/**
+ * Migrations newer than version, oldest first; throws if the data is newer than this DocPush
+ */
+export function pendingMigrations<T extends { version: number }>(
+  migrations: T[],
+  version: number
+): T[] {
+  if (version > STORAGE_VERSION) {
+    throw new StorageVersionError(version, STORAGE_VERSION);
+  }
+  return migrations.filter((migration) => migration.version > version);
+}
+
+/**
+ * Report for migrating from version through the given migrations
+ */
+export function migrationReport(
+  version: number,
+  migrations: Array<{ version: number; description: string }>,
+  dryRun: boolean
+): MigrationReport {
+  return {
+    from: version,
+    to: migrations.at(-1)?.version ?? version,
+    migrations: migrations.map(({ version, description }) => ({ version, description })),
+    dryRun,
+  };
+}
+
+/**
+ * Folder-safe timestamp for backup names
+ */
+export function backupStamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
@@ -0,0 +1,332 @@
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import { ConfigError } from '../../core/errors';
+import type {
+  Draft,
+  DraftComment,
+  DraftQuery,
+  MigrationOptions,
+  MigrationReport,
+  SessionUser,
+  StorageAdapter,
+  StorageBatch,
+} from '../../core/storage';
+import {
+  SQLITE_MIGRATIONS,
+  type SqliteMigration,
+  backupStamp,
+  migrationReport,
+  pendingMigrations,
+} from './migrations';
+import { generateId, now } from './utils';
+
+// Drafts keep their full JSON in data; the columns beside it are copies for lookups
+interface DraftRow {
+  data: string;
+}
+
+interface CommentRow {
+  id: string;
+  draft_id: string;
+  user_id: string | null;
+  user_email: string | null;
+  user_name: string | null;
+  content: string;
+  created_at: number;
+}
+
+// better-sqlite3 is an optional peer dependency, so it is only loaded for this adapter
+function loadDatabase(): typeof Database {
+  try {
+    return require('better-sqlite3');
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code !== 'MODULE_NOT_FOUND') throw e;
+    throw new ConfigError(
+      "The sqlite storage adapter needs better-sqlite3: run 'npm install better-sqlite3'"
+    );
+  }
+}
+
+function toDraft(row: DraftRow): Draft {
+  return JSON.parse(row.data);
+}
+
+function toComment(row: CommentRow): DraftComment {
+  return {
+    id: row.id,
+    draftId: row.draft_id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    userName: row.user_name,
+    content: row.content,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Storage in a SQLite database, for deployments with many drafts and comments. Tables and
+ * indexes are created when a new database is opened; existing ones are upgraded by migrate().
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  private db: Database.Database;
+  private filename: string;
+
+  /**
+   * @param file Database file, relative to the working directory (':memory:' for a scratch store)
+   */
+  constructor(file = path.join('.docpush', 'docpush.db')) {
+    this.filename = file === ':memory:' ? file : path.resolve(process.cwd(), file);
+    if (this.filename !== ':memory:') {
+      fs.ensureDirSync(path.dirname(this.filename));
+    }
+
+    const Database = loadDatabase();
+    this.db = new Database(this.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.pragma('busy_timeout = 5000');
+
+    const { tables } = this.db
+      .prepare("SELECT count(*) AS tables FROM sqlite_master WHERE type = 'table'")
+      .get() as { tables: number };
+    if (tables === 0) {
+      this.applyMigrations(SQLITE_MIGRATIONS);
+    }
+  }
+
+  async migrate(options: MigrationOptions = {}): Promise<MigrationReport> {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    const pending = pendingMigrations(SQLITE_MIGRATIONS, version);
+    const report = migrationReport(version, pending, Boolean(options.dryRun));
+    if (options.dryRun || pending.length === 0) return report;
+
+    if (options.backup !== false && this.filename !== ':memory:') {
+      report.backupPath = `${this.filename}.v${version}-${backupStamp()}.bak`;
+      await this.db.backup(report.backupPath);
+    }
+
+    this.applyMigrations(pending);
+    return report;
+  }
+
+  // All or nothing: user_version only moves if every migration succeeds
+  private applyMigrations(migrations: SqliteMigration[]): void {
+    this.db.transaction(() => {
+      for (const migration of migrations) {
+        migration.up(this.db);
+        this.db.pragma(`user_version = ${migration.version}`);
+      }
+    })();
+  }
+
+  /**
+   * Close the database; the adapter cannot be used afterwards
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private writeDraft(draft: Draft): void {
+    this.db
+      .prepare(
+        `INSERT INTO drafts (id, doc_path, branch_name, status, author_email, data, created_at, updated_at)
+         VALUES (@id, @docPath, @branchName, @status, @authorEmail, @data, @createdAt, @updatedAt)
+         ON CONFLICT (id) DO UPDATE SET
+           doc_path = excluded.doc_path,
+           branch_name = excluded.branch_name,
+           status = excluded.status,
+           author_email = excluded.author_email,
+           data = excluded.data,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at`
+      )
+      .run({
+        id: draft.id,
+        docPath: draft.docPath,
+        branchName: draft.branchName,
+        status: draft.status,
+        authorEmail: draft.authorEmail,
+        data: JSON.stringify(draft),
+        createdAt: draft.createdAt,
+        updatedAt: draft.updatedAt,
+      });
+  }
+
+  // Draft operations
+  async getDrafts(status?: string): Promise<Draft[]> {
+    return this.findDrafts(status ? { status: status as Draft['status'] } : {});
+  }
+
+  async findDrafts(query: DraftQuery): Promise<Draft[]> {
+    const conditions: string[] = [];
+    if (query.status !== undefined) conditions.push('status = @status');
+    if (query.authorEmail !== undefined) conditions.push('author_email = @authorEmail');
+    if (query.docPath !== undefined) conditions.push('doc_path = @docPath');
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM drafts ${where} ORDER BY created_at, rowid`)
+      .all(query) as DraftRow[];
+    return Array.from(rows, toDraft);
+  }
+
+  async getDraft(id: string): Promise<Draft | null> {
+    const row = this.db.prepare('SELECT data FROM drafts WHERE id = ?').get(id) as
+      | DraftRow
+      | undefined;
+    return row ? toDraft(row) : null;
+  }
+
+  async getDraftByBranch(branchName: string): Promise<Draft | null> {
+    const row = this.db
+      .prepare('SELECT data FROM drafts WHERE branch_name = ? ORDER BY rowid LIMIT 1')
+      .get(branchName) as DraftRow | undefined;
+    return row ? toDraft(row) : null;
+  }
+
+  async createDraft(draft: Omit<Draft, 'id' | 'createdAt' | 'updatedAt'>): Promise<Draft> {
+    const newDraft: Draft = {
+      ...draft,
+      id: generateId(),
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    this.writeDraft(newDraft);
+    return newDraft;
+  }
+
+  async updateDraft(id: string, updates: Partial<Draft>): Promise<Draft | null> {
+    // Read and write in one transaction so concurrent updates don't drop each other's fields
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT data FROM drafts WHERE id = ?').get(id) as
+        | DraftRow
+        | undefined;
+      if (!row) return null;
+
+      const updated: Draft = {
+        ...toDraft(row),
+        ...updates,
+        id,
+        updatedAt: now(),
+      };
+      this.writeDraft(updated);
+      return updated;
+    })();
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    // Comments go with the draft (ON DELETE CASCADE)
+    const result = this.db.prepare('DELETE FROM drafts WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  async putDraft(draft: Draft): Promise<void> {
+    this.writeDraft(draft);
+  }
+
+  // Comment operations
+  async getComments(draftId: string): Promise<DraftComment[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM comments WHERE draft_id = ? ORDER BY created_at, rowid')
+      .all(draftId) as CommentRow[];
+    return Array.from(rows, toComment);
+  }
+
+  async addComment(comment: Omit<DraftComment, 'id' | 'createdAt'>): Promise<DraftComment> {
+    const newComment: DraftComment = {
+      ...comment,
+      id: generateId(),
+      createdAt: now(),
+    };
+    this.db
+      .prepare(
+        `INSERT INTO comments (id, draft_id, user_id, user_email, user_name, content, created_at)
+         VALUES (@id, @draftId, @userId, @userEmail, @userName, @content, @createdAt)`
+      )
+      .run(newComment);
+    return newComment;
+  }
+
+  async putComment(comment: DraftComment): Promise<void> {
+    this.writeComment(comment);
+  }
+
+  private writeComment(comment: DraftComment): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO comments (id, draft_id, user_id, user_email, user_name, content, created_at)
+         VALUES (@id, @draftId, @userId, @userEmail, @userName, @content, @createdAt)`
+      )
+      .run(comment);
+  }
+
+  async writeBatch(batch: StorageBatch): Promise<void> {
+    this.db.transaction(() => {
+      const remove = this.db.prepare('DELETE FROM drafts WHERE id = ?');
+      for (const id of batch.deleteDrafts) {
+        remove.run(id);
+      }
+      for (const draft of batch.drafts) {
+        this.writeDraft(draft);
+      }
+      for (const comment of batch.comments) {
+        this.writeComment(comment);
+      }
+    })();
+  }
+
+  // Session operations
+  async createSession(userId: string, email: string, name?: string): Promise<string> {
+    const token = generateId();
+    this.db
+      .prepare(
+        'INSERT INTO sessions (token, user_id, email, name, expires_at) VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(token, userId, email, name ?? null, now() + 86400); // 24 hours
+    return token;
+  }
+
+  async getSession(token: string): Promise<SessionUser | null> {
+    const session = this.db
+      .prepare('SELECT user_id, email, name FROM sessions WHERE token = ? AND expires_at >= ?')
+      .get(token, now()) as { user_id: string; email: string; name: string | null } | undefined;
+    if (!session) return null;
+    return { userId: session.user_id, email: session.email, name: session.name ?? undefined };
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+  }
+
+  // Magic link operations
+  async createMagicLink(email: string): Promise<string> {
+    const token = generateId();
+    this.db
+      .prepare('INSERT INTO magic_links (token, email, expires_at) VALUES (?, ?, ?)')
+      .run(token, email, now() + 900); // 15 minutes
+    return token;
+  }
+
+  async verifyMagicLink(token: string): Promise<string | null> {
+    // Only one of two concurrent verifications may mark the link as used
+    return this.db.transaction(() => {
+      const link = this.db
+        .prepare('SELECT email FROM magic_links WHERE token = ? AND used = 0 AND expires_at >= ?')
+        .get(token, now()) as { email: string } | undefined;
+      if (!link) return null;
+
+      this.db.prepare('UPDATE magic_links SET used = 1 WHERE token = ?').run(token);
+      return link.email;
+    })();
+  }
+
+  // Cleanup expired data
+  async cleanupExpired(): Promise<void> {
+    const currentTime = now();
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(currentTime);
+      this.db.prepare('DELETE FROM magic_links WHERE expires_at < ?').run(currentTime);
+    })();
+  }
+}
@@ -0,0 +1,10 @@
+import { randomUUID } from 'node:crypto';
+
+export function generateId(): string {
+  return randomUUID();
+}
+
+// Storage timestamps are Unix seconds
+export function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,18 @@
+import type { TokenExchange } from '../core/github/app-auth';
+
+/**
+ * Test double for the token exchange: issues numbered tokens and records every call
+ */
+export class FakeTokenExchange {
+  calls: Array<{ appJwt: string; installationId: string }> = [];
+
+  constructor(private ttlMs = 60 * 60 * 1000) {}
+
+  exchange: TokenExchange = async (appJwt, installationId) => {
+    this.calls.push({ appJwt, installationId });
+    return {
+      token: `ghs_fake_${this.calls.length}`,
+      expiresAt: new Date(Date.now() + this.ttlMs),
+    };
+  };
+}
@@ -0,0 +1,115 @@
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { type LfsPointer, createPointer } from '../core/lfs/pointer';
+
+/**
+ * In-memory stand-in for a Git LFS server (batch API, basic transfer adapter). With a token,
+ * requests must send it as the basic auth password.
+ */
+export class LocalLfsServer {
+  objects = new Map<string, Buffer>();
+
+  constructor(private token?: string) {}
+
+  /**
+   * Express router serving the LFS endpoint at the path it is mounted on
+   */
+  router(): express.Router {
+    const router = express.Router();
+
+    router.use((req, res, next) => {
+      if (!this.token) return next();
+      const [, credentials = ''] = (req.headers.authorization || '').split(' ');
+      const password = Buffer.from(credentials, 'base64').toString('utf-8').split(':')[1];
+      if (password !== this.token) {
+        return res.status(401).json({ message: 'Credentials needed' });
+      }
+      next();
+    });
+
+    router.post(
+      '/objects/batch',
+      express.json({ type: 'application/vnd.git-lfs+json' }),
+      (req, res) => {
+        const { operation, objects = [] } = req.body as {
+          operation: 'upload' | 'download';
+          objects: LfsPointer[];
+        };
+        const base = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+        res.type('application/vnd.git-lfs+json').json({
+          transfer: 'basic',
+          objects: objects.map(({ oid, size }) => {
+            const stored = this.objects.get(oid);
+            const href = { href: `${base}/objects/${oid}`, header: this.authHeader() };
+
+            if (operation === 'upload') {
+              // Already stored: nothing to do
+              if (stored) return { oid, size };
+              return {
+                oid,
+                size,
+                actions: { upload: href, verify: { ...href, href: `${base}/verify` } },
+              };
+            }
+
+            if (!stored) {
+              return { oid, size, error: { code: 404, message: 'Object does not exist' } };
+            }
+            return { oid, size, actions: { download: href } };
+          }),
+        });
+      }
+    );
+
+    router.put('/objects/:oid', express.raw({ type: '*/*', limit: '100mb' }), (req, res) => {
+      const content = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (createPointer(content).oid !== req.params.oid) {
+        return res.status(422).json({ message: 'Content does not match oid' });
+      }
+      this.objects.set(req.params.oid, content);
+      res.sendStatus(200);
+    });
+
+    router.get('/objects/:oid', (req, res) => {
+      const content = this.objects.get(req.params.oid);
+      if (!content) {
+        return res.status(404).json({ message: 'Object does not exist' });
+      }
+      res.type('application/octet-stream').send(content);
+    });
+
+    router.post('/verify', express.json({ type: '*/*' }), (req, res) => {
+      const { oid, size } = req.body as LfsPointer;
+      if (this.objects.get(oid)?.length !== size) {
+        return res.status(422).json({ message: 'Object was not uploaded' });
+      }
+      res.sendStatus(200);
+    });
+
+    return router;
+  }
+
+  /**
+   * Serve the router on its own port (0 picks a free one); url is the LFS endpoint
+   */
+  async listen(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+    const app = express();
+    app.use('/lfs', this.router());
+
+    return new Promise((resolve) => {
+      const server = app.listen(port, () => {
+        const { port: actual } = server.address() as AddressInfo;
+        resolve({
+          url: `http://localhost:${actual}/lfs`,
+          close: () => new Promise((done) => server.close(() => done())),
+        });
+      });
+    });
+  }
+
+  private authHeader(): Record<string, string> | undefined {
+    if (!this.token) return undefined;
+    return { authorization: `Basic ${Buffer.from(`lfs:${this.token}`).toString('base64')}` };
+  }
+}
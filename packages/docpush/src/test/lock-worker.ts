@@ -0,0 +1,25 @@
+import fs from 'fs-extra';
+import { withFileLock, writeJsonAtomic } from '../server/storage/file-lock';
+
+/**
+ * Child process for the cross-process lock tests: bump the counter in <file> <times> times,
+ * each as a locked read-modify-write that takes at least [holdMs]
+ */
+async function main(): Promise<void> {
+  const [file, times, holdMs = '0'] = process.argv.slice(2);
+
+  for (let i = 0; i < Number(times); i++) {
+    await withFileLock(file, async () => {
+      const data: { count: number; writers: number[] } = await fs.readJson(file);
+      await new Promise((resolve) => setTimeout(resolve, Number(holdMs)));
+      data.count += 1;
+      data.writers.push(process.pid);
+      await writeJsonAtomic(file, data);
+    });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -9,6 +9,19 @@ module.exports = {
     docsPath: "docs",
   },
 
+  // Optional: use GitLab or Gitea instead of GitHub
+  // (drafts there can't be synced with the base branch, only compared to it)
+  // git: {
+  //   provider: "gitlab", // or "gitea"
+  //   url: "https://gitlab.example.com",
+  // },
+
+  // Optional: use a local bare repository instead of GitHub
+  // git: {
+  //   provider: "local",
+  //   repoPath: "/srv/git/docs.git",
+  // },
+
   // Auth Mode 1: Public - anyone can edit, admin password for approvals
   auth: {
     mode: "public",
@@ -26,6 +39,22 @@ module.exports = {
     emails: ["admin@example.com"],
   },
 
+  // Optional: published versions readers can switch between (branches or tags)
+  // versions: [
+  //   { id: "v2", label: "v2.x", ref: "release/2.x", default: true },
+  //   { id: "v1", label: "v1.4", ref: "v1.4.0" },
+  // ],
+
+  // Optional: open PRs for review instead of merging on approval
+  // publishing: {
+  //   mode: "pull-request", // or "auto-merge" (default)
+  //   mergeMethod: "squash", // or "merge", "rebase"
+  //   prTitle: "Docs: {title}",
+  //   prBody: "Approved documentation update for `{docPath}` by {approver}",
+  //   labels: ["documentation"],
+  //   reviewers: ["docs-team-lead"],
+  // },
+
   branding: {
     name: "My Documentation",
   },